@@ -6,18 +6,58 @@ import {
 import { CHANNEL_NAME } from "./constants.ts";
 import { setupSavedNotesSheet } from "./sheet.ts";
 import { setupNavbar } from "./navbar.ts";
+import { setupHistorySheet } from "./historySheet.ts";
+import { setupMarkdownSheet } from "./markdownSheet.ts";
+import { setupHashtagHighlights } from "./hashtagHighlight.ts";
+import { setupWikiLinks } from "./wikiLinks.ts";
+import { setupSlashCommands } from "./slashCommands.ts";
+import { setupChecklists } from "./checklists.ts";
+import { setupNoteImages } from "./noteImages.ts";
+import { setupNoteLock } from "./noteLock.ts";
+import { setupDailyNotes } from "./dailyNotes.ts";
+import { setupNotePrint } from "./notePrint.ts";
+import { setupSharedNoteImport } from "./sharedNoteSheet.ts";
+import { setupBacklinksPanel } from "./backlinksPanel.ts";
+import { setupTrashUndo } from "./trashUndo.ts";
+import { setupShortcuts } from "./shortcuts.ts";
+import { setupCommandPalette } from "./commandPalette.ts";
 
 function bootstrap() {
   const noteElement = getNoteElement();
   const context = createNotePlacement(noteElement);
   const channel = new BroadcastChannel(CHANNEL_NAME);
 
+  setupShortcuts();
   const noteSync = initializeNoteContent(context, channel);
   setupNavbar({ context, noteElement, noteSync });
+  setupHashtagHighlights(noteElement);
+  setupWikiLinks(noteElement);
+  setupSlashCommands(noteElement);
+  setupChecklists(noteElement);
+  setupNoteImages(noteElement);
+  // The day bar goes above the lock screen, which also sits before the note.
+  setupDailyNotes({ noteElement, noteSync });
+  setupNoteLock({ noteElement, noteSync });
+  setupNotePrint({ noteElement, noteSync });
 
-  setupSavedNotesSheet();
+  setupSavedNotesSheet({ noteSync, channel });
+  setupHistorySheet({ noteElement, noteSync });
+  setupMarkdownSheet({ noteElement, noteSync });
+  setupBacklinksPanel(channel);
+  setupCommandPalette();
+  setupSharedNoteImport();
+  void setupTrashUndo();
+
+  // Edits still waiting for the debounce would be lost with the page.
+  window.addEventListener("pagehide", () => noteSync.flush());
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") {
+      noteSync.flush();
+    }
+  });
 
   window.addEventListener("beforeunload", () => {
+    noteSync.flush();
     channel.close();
   });
 }
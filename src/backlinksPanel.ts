@@ -0,0 +1,80 @@
+import { DEBOUNCE_DELAY_MS } from "./constants.ts";
+import { loadBacklinks } from "./utils/backlinks.ts";
+import { loadNoteMetadataMap } from "./utils/noteMetadata.ts";
+import { getActiveSlug, getNoteUrl } from "./utils/noteUrl.ts";
+import { parseSyncMessage } from "./utils/syncProtocol.ts";
+
+/**
+ * Shows the notes that link to the open one below the editor. Other tabs
+ * announce their saves on the sync channel, which is when new backlinks can
+ * appear.
+ */
+export function setupBacklinksPanel(channel: BroadcastChannel): void {
+  const panel = document.getElementById("backlinks");
+  if (!(panel instanceof HTMLElement)) {
+    console.warn("#backlinks panel is missing; backlinks unavailable.");
+    return;
+  }
+
+  let renderSequence = 0;
+
+  const render = async () => {
+    const renderId = ++renderSequence;
+    const activeSlug = getActiveSlug();
+    const [sources, metadataMap] = await Promise.all([
+      loadBacklinks(activeSlug),
+      loadNoteMetadataMap(),
+    ]);
+    if (renderId !== renderSequence) {
+      return;
+    }
+
+    panel.innerHTML = "";
+    panel.hidden = sources.length === 0;
+    if (!sources.length) {
+      return;
+    }
+
+    const heading = document.createElement("h2");
+    heading.className = "note-backlinks__title";
+    heading.textContent = "Linked from";
+
+    const list = document.createElement("ul");
+    list.className = "note-backlinks__list";
+    sources
+      .map((slug) => ({ slug, title: metadataMap[slug]?.title || slug }))
+      .sort((a, b) => a.title.localeCompare(b.title))
+      .forEach(({ slug, title }) => {
+        const item = document.createElement("li");
+        const link = document.createElement("a");
+        link.className = "note-backlinks__link";
+        link.href = getNoteUrl(slug);
+        link.textContent = title;
+        item.appendChild(link);
+        list.appendChild(item);
+      });
+
+    panel.append(heading, list);
+  };
+
+  let refreshTimeoutId: number | undefined;
+  const scheduleRender = () => {
+    window.clearTimeout(refreshTimeoutId);
+    refreshTimeoutId = window.setTimeout(() => {
+      void render();
+    }, DEBOUNCE_DELAY_MS);
+  };
+
+  channel.addEventListener("message", (event) => {
+    const message = parseSyncMessage(event.data);
+    if (
+      message &&
+      (message.type === "note-rename" || message.slug !== getActiveSlug())
+    ) {
+      scheduleRender();
+    }
+  });
+  window.addEventListener("focus", scheduleRender);
+
+  void render();
+}
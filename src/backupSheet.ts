@@ -0,0 +1,308 @@
+import { createBottomSheet } from "@plainsheet/core";
+import { createExportFileName } from "./utils/fileName.ts";
+import {
+  createLibraryArchive,
+  findConflictingSlugs,
+  importLibraryArchive,
+  parseLibraryArchive,
+  type ConflictResolution,
+  type LibraryArchive,
+} from "./utils/libraryArchive.ts";
+import { getActiveSlug } from "./utils/noteUrl.ts";
+
+type BackupSheetOptions = {
+  beforeOpen?: () => void;
+};
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Backup and restore">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Backup &amp; restore</h2>
+      <button type="button" class="note-sheet__close" data-backup="close" aria-label="Close backup and restore"></button>
+    </header>
+    <p class="note-sheet__intro">Save every note, its pictures and your preferences into a single file, or restore a previous backup on this device.</p>
+    <div class="note-sheet__actions note-sheet__actions--start">
+      <button type="button" class="note-sheet__button note-sheet__button--primary" data-backup="export">Download backup</button>
+      <label class="note-sheet__button">
+        Restore from file…
+        <input type="file" accept=".json,application/json" data-backup="file" hidden />
+      </label>
+    </div>
+    <p class="note-sheet__warning" data-backup="warning" hidden></p>
+    <div class="note-backup-preview" data-backup="preview" hidden>
+      <p class="note-sheet__hint" data-backup="summary"></p>
+      <ul class="note-backup-list" data-backup="list"></ul>
+      <label class="note-sheet__checkbox">
+        <input type="checkbox" data-backup="preferences" checked />
+        <span data-backup="preferences-label">Restore preferences</span>
+      </label>
+      <div class="note-sheet__actions">
+        <button type="button" class="note-sheet__button" data-backup="cancel">Cancel</button>
+        <button type="button" class="note-sheet__button note-sheet__button--primary" data-backup="import">Import</button>
+      </div>
+    </div>
+    <p class="note-sheet__hint" data-backup="status" role="status" aria-live="polite"></p>
+  </section>
+`;
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  skip: "Skip",
+  overwrite: "Overwrite",
+  "keep-both": "Keep both",
+};
+
+const downloadArchive = (archive: LibraryArchive) => {
+  const blob = new Blob([JSON.stringify(archive, null, 2)], {
+    type: "application/json",
+  });
+  const objectUrl = URL.createObjectURL(blob);
+  const downloadLink = document.createElement("a");
+  downloadLink.href = objectUrl;
+  downloadLink.download = createExportFileName("json", "blinkpad-backup");
+  downloadLink.rel = "noopener";
+  document.body.appendChild(downloadLink);
+  downloadLink.click();
+  downloadLink.remove();
+  window.setTimeout(() => URL.revokeObjectURL(objectUrl), 0);
+};
+
+export function setupBackupSheet(
+  trigger: HTMLButtonElement,
+  { beforeOpen }: BackupSheetOptions = {}
+): boolean {
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Backup and restore",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Backup sheet content wrapper not found.");
+    return false;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-backup='${name}']`);
+
+  const exportButton = query<HTMLButtonElement>("export");
+  const fileInput = query<HTMLInputElement>("file");
+  const warning = query<HTMLElement>("warning");
+  const preview = query<HTMLElement>("preview");
+  const summary = query<HTMLElement>("summary");
+  const list = query<HTMLUListElement>("list");
+  const preferencesToggle = query<HTMLInputElement>("preferences");
+  const preferencesLabel = query<HTMLElement>("preferences-label");
+  const importButton = query<HTMLButtonElement>("import");
+  const status = query<HTMLElement>("status");
+  if (
+    !exportButton ||
+    !fileInput ||
+    !preview ||
+    !summary ||
+    !list ||
+    !preferencesToggle ||
+    !importButton
+  ) {
+    console.warn("Backup sheet elements are missing.");
+    return false;
+  }
+
+  let pendingArchive: LibraryArchive | null = null;
+  let resolutions: Record<string, ConflictResolution> = {};
+
+  const setStatus = (message: string) => {
+    if (status) {
+      status.textContent = message;
+    }
+  };
+
+  const hideWarning = () => {
+    if (!warning) return;
+    warning.hidden = true;
+    warning.textContent = "";
+  };
+
+  const showWarning = (message: string) => {
+    if (!warning) return;
+    warning.textContent = message;
+    warning.hidden = false;
+  };
+
+  const resetPreview = () => {
+    pendingArchive = null;
+    resolutions = {};
+    preview.hidden = true;
+    list.innerHTML = "";
+    fileInput.value = "";
+  };
+
+  const renderPreview = (archive: LibraryArchive, conflicts: Set<string>) => {
+    list.innerHTML = "";
+    archive.notes.forEach((note) => {
+      const item = document.createElement("li");
+      item.className = "note-backup-list__item";
+
+      const label = document.createElement("span");
+      label.className = "note-backup-list__label";
+
+      const title = document.createElement("span");
+      title.className = "note-card__title";
+      title.textContent = note.metadata?.title || note.slug;
+
+      const meta = document.createElement("span");
+      meta.className = "note-card__meta";
+      meta.textContent = note.slug === "root" ? "default" : `/${note.slug}`;
+
+      label.append(title, meta);
+      item.appendChild(label);
+
+      if (conflicts.has(note.slug)) {
+        const select = document.createElement("select");
+        select.className = "note-backup-list__select";
+        select.setAttribute("aria-label", `When ${note.slug} already exists`);
+        (Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).forEach(
+          (resolution) => {
+            const option = document.createElement("option");
+            option.value = resolution;
+            option.textContent = RESOLUTION_LABELS[resolution];
+            select.appendChild(option);
+          }
+        );
+        select.value = resolutions[note.slug];
+        select.addEventListener("change", () => {
+          resolutions[note.slug] = select.value as ConflictResolution;
+        });
+        item.appendChild(select);
+      } else {
+        const badge = document.createElement("span");
+        badge.className = "note-backup-list__badge";
+        badge.textContent = "New";
+        item.appendChild(badge);
+      }
+
+      list.appendChild(item);
+    });
+
+    const preferenceCount = Object.keys(archive.preferences).length;
+    preferencesToggle.checked = preferenceCount > 0;
+    preferencesToggle.disabled = preferenceCount === 0;
+    if (preferencesLabel) {
+      preferencesLabel.textContent = `Restore preferences (${preferenceCount})`;
+    }
+
+    const exportedAt = new Date(archive.exportedAt).toLocaleString(undefined, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+    summary.textContent = `${archive.notes.length} notes from ${exportedAt}, ${conflicts.size} already exist here`;
+    importButton.disabled = archive.notes.length === 0 && preferenceCount === 0;
+    preview.hidden = false;
+  };
+
+  exportButton.addEventListener("click", async () => {
+    exportButton.disabled = true;
+    hideWarning();
+    try {
+      const archive = await createLibraryArchive();
+      downloadArchive(archive);
+      setStatus(`Backup of ${archive.notes.length} notes downloaded.`);
+    } catch (error) {
+      console.error("Unable to create library backup", error);
+      showWarning("We couldn't read your notes to create a backup.");
+    } finally {
+      exportButton.disabled = false;
+    }
+  });
+
+  fileInput.addEventListener("change", async () => {
+    const file = fileInput.files?.[0];
+    if (!file) {
+      return;
+    }
+    hideWarning();
+    setStatus("");
+    try {
+      const archive = parseLibraryArchive(await file.text());
+      const conflicts = await findConflictingSlugs(archive);
+      pendingArchive = archive;
+      resolutions = {};
+      conflicts.forEach((slug) => {
+        resolutions[slug] = "skip";
+      });
+      renderPreview(archive, conflicts);
+    } catch (error) {
+      resetPreview();
+      showWarning(
+        error instanceof Error
+          ? error.message
+          : "This file is not a valid Blinkpad archive."
+      );
+    }
+  });
+
+  importButton.addEventListener("click", async () => {
+    if (!pendingArchive) {
+      return;
+    }
+    importButton.disabled = true;
+    try {
+      const result = await importLibraryArchive({
+        archive: pendingArchive,
+        resolutions,
+        includePreferences: preferencesToggle.checked,
+      });
+      const activeSlug = getActiveSlug();
+      if (
+        !result.failed.length &&
+        !result.failedImages &&
+        (result.imported.includes(activeSlug) || result.preferencesRestored > 0)
+      ) {
+        window.location.reload();
+        return;
+      }
+      resetPreview();
+      setStatus(
+        `Imported ${result.imported.length} notes, skipped ${result.skipped.length}.`
+      );
+      if (result.failed.length) {
+        showWarning(
+          `We couldn't save ${result.failed.length} notes: ${result.failed.join(", ")}. Please try importing again.`
+        );
+      } else if (result.failedImages) {
+        showWarning(
+          `We couldn't save ${result.failedImages} pictures. Please try importing again.`
+        );
+      }
+    } catch (error) {
+      console.error("Unable to import library backup", error);
+      showWarning("The import stopped before finishing. Please try again.");
+    } finally {
+      importButton.disabled = false;
+    }
+  });
+
+  query<HTMLButtonElement>("cancel")?.addEventListener("click", () => {
+    resetPreview();
+  });
+
+  query<HTMLButtonElement>("close")?.addEventListener("click", () => {
+    bottomSheet.close();
+  });
+
+  trigger.addEventListener("click", () => {
+    beforeOpen?.();
+    resetPreview();
+    hideWarning();
+    setStatus("");
+    bottomSheet.open();
+  });
+
+  return true;
+}
@@ -0,0 +1,168 @@
+import { openDailyNote } from "./dailyNotes.ts";
+import {
+  formatDailyNoteTitle,
+  formatDayKey,
+  getDailyNoteSlug,
+  loadDailyNoteDays,
+  loadDailyNoteTemplateId,
+  saveDailyNoteTemplateId,
+} from "./utils/dailyNotes.ts";
+import { loadNoteTemplates, type NoteTemplate } from "./utils/noteTemplates.ts";
+import { getActiveSlug, getNoteUrl } from "./utils/noteUrl.ts";
+
+export type CalendarView = {
+  render(container: HTMLElement): Promise<void>;
+};
+
+const DAYS_PER_WEEK = 7;
+
+// Weeks start on Monday.
+const getWeekdayIndex = (date: Date) => (date.getDay() + 6) % DAYS_PER_WEEK;
+
+const formatMonth = (month: Date) => {
+  return month.toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+  });
+};
+
+const getWeekdayNames = () => {
+  // 2024-01-01 was a Monday.
+  return Array.from({ length: DAYS_PER_WEEK }, (_, index) =>
+    new Date(2024, 0, 1 + index).toLocaleDateString(undefined, {
+      weekday: "narrow",
+    })
+  );
+};
+
+/**
+ * The library's calendar: a month grid marking the days that have a daily
+ * note. Days with a note link to it; empty days start one.
+ */
+export function createCalendarView(): CalendarView {
+  let renderSequence = 0;
+  const today = new Date();
+  let month = new Date(today.getFullYear(), today.getMonth(), 1);
+
+  const createDay = (date: Date, filledDays: Set<string>) => {
+    const dayKey = formatDayKey(date);
+    const label = formatDailyNoteTitle(date);
+    const isFilled = filledDays.has(dayKey);
+
+    let day: HTMLElement;
+    if (isFilled) {
+      const link = document.createElement("a");
+      link.href = getNoteUrl(getDailyNoteSlug(date));
+      link.setAttribute("aria-label", label);
+      day = link;
+    } else {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.setAttribute("aria-label", `Start a note for ${label}`);
+      button.addEventListener("click", () => {
+        button.disabled = true;
+        void openDailyNote(date).finally(() => {
+          button.disabled = false;
+        });
+      });
+      day = button;
+    }
+    day.className = "note-calendar__day";
+    day.textContent = String(date.getDate());
+    day.classList.toggle("is-filled", isFilled);
+    day.classList.toggle("is-today", dayKey === formatDayKey(new Date()));
+    if (getDailyNoteSlug(date) === getActiveSlug()) {
+      day.setAttribute("aria-current", "date");
+    }
+    return day;
+  };
+
+  const createTemplatePicker = (
+    templates: NoteTemplate[],
+    selectedId: string
+  ) => {
+    const label = document.createElement("label");
+    label.className = "note-sheet__sort note-calendar__template";
+    const text = document.createElement("span");
+    text.textContent = "New days start from";
+    const select = document.createElement("select");
+    select.append(new Option("Blank note", ""));
+    templates.forEach((template) => {
+      select.append(new Option(template.name, template.id));
+    });
+    select.value = templates.some((template) => template.id === selectedId)
+      ? selectedId
+      : "";
+    select.addEventListener("change", () => {
+      void saveDailyNoteTemplateId(select.value);
+    });
+    label.append(text, select);
+    return label;
+  };
+
+  const render = async (container: HTMLElement) => {
+    const renderId = ++renderSequence;
+    container.innerHTML = '<div class="note-sheet-empty"><p>Loading…</p></div>';
+
+    const [filledDays, templates, templateId] = await Promise.all([
+      loadDailyNoteDays(),
+      loadNoteTemplates(),
+      loadDailyNoteTemplateId(),
+    ]);
+    if (renderId !== renderSequence) {
+      return;
+    }
+    container.innerHTML = "";
+
+    const header = document.createElement("div");
+    header.className = "note-calendar__header";
+
+    const title = document.createElement("h3");
+    title.className = "note-calendar__title";
+    title.textContent = formatMonth(month);
+
+    const stepMonth = (offset: number) => {
+      month = new Date(month.getFullYear(), month.getMonth() + offset, 1);
+      void render(container);
+    };
+
+    const previousButton = document.createElement("button");
+    previousButton.type = "button";
+    previousButton.className = "note-sheet__view";
+    previousButton.textContent = "Previous";
+    previousButton.setAttribute("aria-label", "Previous month");
+    previousButton.addEventListener("click", () => stepMonth(-1));
+
+    const nextButton = document.createElement("button");
+    nextButton.type = "button";
+    nextButton.className = "note-sheet__view";
+    nextButton.textContent = "Next";
+    nextButton.setAttribute("aria-label", "Next month");
+    nextButton.addEventListener("click", () => stepMonth(1));
+
+    header.append(previousButton, title, nextButton);
+
+    const grid = document.createElement("div");
+    grid.className = "note-calendar__grid";
+    getWeekdayNames().forEach((name) => {
+      const weekday = document.createElement("span");
+      weekday.className = "note-calendar__weekday";
+      weekday.setAttribute("aria-hidden", "true");
+      weekday.textContent = name;
+      grid.appendChild(weekday);
+    });
+
+    for (let index = 0; index < getWeekdayIndex(month); index += 1) {
+      grid.appendChild(document.createElement("span"));
+    }
+    const date = new Date(month);
+    while (date.getMonth() === month.getMonth()) {
+      grid.appendChild(createDay(new Date(date), filledDays));
+      date.setDate(date.getDate() + 1);
+    }
+
+    container.append(header, grid, createTemplatePicker(templates, templateId));
+  };
+
+  return { render };
+}
@@ -0,0 +1,178 @@
+export type CaretMenuItem = {
+  id: string;
+  label: string;
+  hint?: string;
+};
+
+type CaretMenuOptions = {
+  ariaLabel: string;
+  onSelect: (item: CaretMenuItem) => void;
+};
+
+export type CaretMenu = {
+  show(items: CaretMenuItem[], anchor: Range): void;
+  hide(): void;
+  isOpen(): boolean;
+  /** Returns true when the key was used to drive the open menu. */
+  handleKeydown(event: KeyboardEvent): boolean;
+};
+
+const MENU_OFFSET_PX = 6;
+
+const getAnchorRect = (anchor: Range, noteElement: HTMLElement) => {
+  const rect = anchor.getBoundingClientRect();
+  if (rect.width || rect.height) {
+    return rect;
+  }
+  // Collapsed ranges in empty lines have no box; fall back to their block.
+  const container = anchor.startContainer;
+  const block =
+    container.nodeType === Node.ELEMENT_NODE
+      ? (container as Element)
+      : container.parentElement;
+  return (block ?? noteElement).getBoundingClientRect();
+};
+
+/**
+ * A small listbox that follows the caret inside the editor. It lives in
+ * whichever document currently hosts the editor, so it also works in the
+ * pop-out window.
+ */
+export function createCaretMenu(
+  noteElement: HTMLDivElement,
+  { ariaLabel, onSelect }: CaretMenuOptions
+): CaretMenu {
+  let menuElement: HTMLUListElement | null = null;
+  let items: CaretMenuItem[] = [];
+  let activeIndex = 0;
+
+  const ensureMenuElement = () => {
+    const ownerDocument = noteElement.ownerDocument ?? document;
+    if (menuElement?.ownerDocument === ownerDocument) {
+      return menuElement;
+    }
+    menuElement?.remove();
+    const menu = ownerDocument.createElement("ul");
+    menu.className = "caret-menu";
+    menu.setAttribute("role", "listbox");
+    menu.setAttribute("aria-label", ariaLabel);
+    menu.hidden = true;
+    ownerDocument.body.appendChild(menu);
+    menuElement = menu;
+    return menu;
+  };
+
+  const renderItems = () => {
+    if (!menuElement) return;
+    menuElement.innerHTML = "";
+    items.forEach((item, index) => {
+      const option = menuElement!.ownerDocument.createElement("li");
+      option.className = "caret-menu__item";
+      option.setAttribute("role", "option");
+      option.setAttribute("aria-selected", String(index === activeIndex));
+
+      const label = option.ownerDocument.createElement("span");
+      label.className = "caret-menu__label";
+      label.textContent = item.label;
+      option.appendChild(label);
+
+      if (item.hint) {
+        const hint = option.ownerDocument.createElement("span");
+        hint.className = "caret-menu__hint";
+        hint.textContent = item.hint;
+        option.appendChild(hint);
+      }
+
+      // Keep the caret in the editor while picking with the pointer.
+      option.addEventListener("mousedown", (event) => {
+        event.preventDefault();
+      });
+      option.addEventListener("click", () => {
+        hide();
+        onSelect(item);
+      });
+      menuElement!.appendChild(option);
+    });
+    menuElement
+      .querySelector<HTMLElement>("[aria-selected='true']")
+      ?.scrollIntoView({ block: "nearest" });
+  };
+
+  const position = (anchor: Range) => {
+    if (!menuElement) return;
+    const view = menuElement.ownerDocument.defaultView ?? window;
+    const rect = getAnchorRect(anchor, noteElement);
+    const menuRect = menuElement.getBoundingClientRect();
+    const fitsBelow =
+      rect.bottom + MENU_OFFSET_PX + menuRect.height <= view.innerHeight;
+    const top = fitsBelow
+      ? rect.bottom + MENU_OFFSET_PX
+      : Math.max(MENU_OFFSET_PX, rect.top - MENU_OFFSET_PX - menuRect.height);
+    const left = Math.min(
+      Math.max(MENU_OFFSET_PX, rect.left),
+      view.innerWidth - menuRect.width - MENU_OFFSET_PX
+    );
+    menuElement.style.top = `${Math.round(top)}px`;
+    menuElement.style.left = `${Math.round(Math.max(0, left))}px`;
+  };
+
+  const show = (nextItems: CaretMenuItem[], anchor: Range) => {
+    if (!nextItems.length) {
+      hide();
+      return;
+    }
+    const menu = ensureMenuElement();
+    const activeId = items[activeIndex]?.id;
+    items = nextItems;
+    const previousIndex = items.findIndex((item) => item.id === activeId);
+    activeIndex = previousIndex === -1 ? 0 : previousIndex;
+    renderItems();
+    menu.hidden = false;
+    position(anchor);
+  };
+
+  const hide = () => {
+    items = [];
+    activeIndex = 0;
+    if (menuElement) {
+      menuElement.hidden = true;
+      menuElement.innerHTML = "";
+    }
+  };
+
+  const isOpen = () => Boolean(menuElement && !menuElement.hidden);
+
+  const handleKeydown = (event: KeyboardEvent) => {
+    if (!isOpen() || event.isComposing) {
+      return false;
+    }
+    switch (event.key) {
+      case "ArrowDown":
+        activeIndex = (activeIndex + 1) % items.length;
+        renderItems();
+        return true;
+      case "ArrowUp":
+        activeIndex = (activeIndex - 1 + items.length) % items.length;
+        renderItems();
+        return true;
+      case "Enter":
+      case "Tab": {
+        const item = items[activeIndex];
+        hide();
+        if (item) {
+          onSelect(item);
+        }
+        return true;
+      }
+      case "Escape":
+        hide();
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  noteElement.addEventListener("blur", hide);
+
+  return { show, hide, isOpen, handleKeydown };
+}
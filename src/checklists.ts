@@ -0,0 +1,85 @@
+import { TASK_SELECTOR, isTaskDone, setTaskState } from "./utils/tasks.ts";
+
+const getTaskLine = (noteElement: HTMLDivElement, node: Node | null) => {
+  // Checked by node type since the editor may live in the PiP window's realm.
+  const element =
+    node?.nodeType === Node.ELEMENT_NODE
+      ? (node as Element)
+      : (node?.parentElement ?? null);
+  const line = element?.closest<HTMLElement>(TASK_SELECTOR);
+  return line && noteElement.contains(line) ? line : null;
+};
+
+const getCaretTaskLine = (noteElement: HTMLDivElement) => {
+  const selection = noteElement.ownerDocument?.getSelection();
+  if (!selection || selection.rangeCount === 0) {
+    return null;
+  }
+  return getTaskLine(noteElement, selection.anchorNode);
+};
+
+/** Whether a pointer position falls on the checkbox drawn in the padding. */
+const isOnCheckbox = (line: HTMLElement, clientX: number) => {
+  const view = line.ownerDocument.defaultView ?? window;
+  const paddingLeft = parseFloat(view.getComputedStyle(line).paddingLeft);
+  return clientX - line.getBoundingClientRect().left < (paddingLeft || 0);
+};
+
+/**
+ * Makes checklist lines interactive: clicking the box or pressing Cmd/Ctrl
+ * + Enter toggles an item, Enter continues the list with an open item and
+ * Enter on an empty item ends the list.
+ */
+export function setupChecklists(noteElement: HTMLDivElement): void {
+  const notifyChange = () => {
+    noteElement.dispatchEvent(new InputEvent("input", { bubbles: true }));
+  };
+
+  const toggle = (line: HTMLElement) => {
+    setTaskState(line, isTaskDone(line) ? "todo" : "done");
+    notifyChange();
+  };
+
+  noteElement.addEventListener("mousedown", (event) => {
+    const line = getTaskLine(noteElement, event.target as Node | null);
+    if (!line || !isOnCheckbox(line, event.clientX)) {
+      return;
+    }
+    // Keep the caret where it was instead of jumping into the item.
+    event.preventDefault();
+    toggle(line);
+  });
+
+  noteElement.addEventListener("keydown", (event) => {
+    if (event.key !== "Enter" || event.isComposing || event.defaultPrevented) {
+      return;
+    }
+    const line = getCaretTaskLine(noteElement);
+    if (!line) {
+      return;
+    }
+    if (event.metaKey || event.ctrlKey) {
+      event.preventDefault();
+      toggle(line);
+      return;
+    }
+    if (!event.shiftKey && !line.textContent?.replace(/\u200b/g, "").trim()) {
+      event.preventDefault();
+      line.removeAttribute("data-task");
+      notifyChange();
+    }
+  });
+
+  // The browser copies the line's attributes into the new line, so a fresh
+  // item split off a done one would start ticked.
+  noteElement.addEventListener("input", (event) => {
+    if ((event as InputEvent).inputType !== "insertParagraph") {
+      return;
+    }
+    const line = getCaretTaskLine(noteElement);
+    if (line && isTaskDone(line)) {
+      setTaskState(line, "todo");
+      notifyChange();
+    }
+  });
+}
@@ -105,7 +105,8 @@ function addMatchMediaChangeListener(
   return () => {};
 }
 
-export async function setupColorSchemeManagement(button: HTMLButtonElement | null) {
+/** Resolves with a function that switches to the next color scheme. */
+export async function setupColorSchemeManagement(button: HTMLButtonElement | null): Promise<() => void> {
   const systemQuery = window.matchMedia("(prefers-color-scheme: dark)");
   let preference = await loadStoredColorSchemePreference();
 
@@ -146,15 +147,15 @@ export async function setupColorSchemeManagement(button: HTMLButtonElement | nul
     applyPreference();
   });
 
-  if (!button) {
-    return;
-  }
-
-  button.addEventListener("click", () => {
+  const cycleColorScheme = () => {
     const systemScheme = getSystemColorScheme(systemQuery);
     preference = getNextColorSchemePreference(preference, systemScheme);
     applyColorSchemePreference(preference);
     void persistColorSchemePreference(preference);
     updateToggleDescription();
-  });
+  };
+
+  button?.addEventListener("click", cycleColorScheme);
+
+  return cycleColorScheme;
 }
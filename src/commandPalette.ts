@@ -0,0 +1,322 @@
+import { createBottomSheet } from "@plainsheet/core";
+import {
+  formatBinding,
+  getAvailableCommands,
+  getBinding,
+  getEventBinding,
+  isUsableBinding,
+  pauseShortcuts,
+  registerCommand,
+  resetBindings,
+  runCommand,
+  setBinding,
+  type Command,
+} from "./shortcuts.ts";
+import { fuzzyScore } from "./utils/fuzzyMatch.ts";
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Commands">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Commands</h2>
+      <button type="button" class="note-sheet__close" data-command-palette="close" aria-label="Close commands"></button>
+    </header>
+    <div class="note-sheet__search">
+      <label class="note-sheet__search-label">
+        <input type="search" data-command-palette="search" placeholder="Type a command" aria-label="Search commands" autocomplete="off" spellcheck="false" />
+      </label>
+    </div>
+    <div class="note-sheet__body">
+      <ul class="command-list" data-command-palette="list" role="listbox" aria-label="Commands"></ul>
+    </div>
+    <p class="note-sheet__hint" data-command-palette="status" role="status" aria-live="polite"></p>
+    <footer class="note-sheet__footer">
+      <button type="button" class="note-sheet__button" data-command-palette="reset">Reset shortcuts</button>
+    </footer>
+  </section>
+`;
+
+const scoreCommand = (command: Command, query: string) => {
+  const scores = [
+    fuzzyScore(query, command.label),
+    ...(command.keywords ?? []).map((keyword) => {
+      const score = fuzzyScore(query, keyword);
+      // A keyword hit ranks just below the same hit in the label.
+      return score === null ? null : score - 1;
+    }),
+  ].filter((score): score is number => score !== null);
+  return scores.length ? Math.max(...scores) : null;
+};
+
+const filterCommands = (commands: Command[], query: string) => {
+  if (!query.trim()) {
+    return commands;
+  }
+  return commands
+    .map((command) => ({ command, score: scoreCommand(command, query) }))
+    .filter(
+      (entry): entry is { command: Command; score: number } =>
+        entry.score !== null
+    )
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.command);
+};
+
+/**
+ * A searchable list of every registered command, opened with Cmd/Ctrl + /.
+ * Each row also shows the command's shortcut, which can be rebound by
+ * clicking it and pressing a new combination.
+ */
+export function setupCommandPalette(): boolean {
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Commands",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Command palette content wrapper not found.");
+    return false;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-command-palette='${name}']`);
+
+  const searchInput = query<HTMLInputElement>("search");
+  const list = query<HTMLElement>("list");
+  const status = query<HTMLElement>("status");
+  if (!searchInput || !list) {
+    console.warn("Command palette elements are missing.");
+    return false;
+  }
+
+  let visibleCommands: Command[] = [];
+  let activeIndex = 0;
+  let recordingId: string | null = null;
+
+  const setStatus = (message: string) => {
+    if (status) {
+      status.textContent = message;
+    }
+  };
+
+  const updateActiveItem = () => {
+    list
+      .querySelectorAll<HTMLElement>(".command-list__run")
+      .forEach((button, index) => {
+        const isActive = index === activeIndex;
+        button.setAttribute("aria-selected", String(isActive));
+        button
+          .closest(".command-list__item")
+          ?.classList.toggle("is-active", isActive);
+        if (isActive) {
+          button.scrollIntoView({ block: "nearest" });
+        }
+      });
+  };
+
+  const describeBinding = (id: string) => {
+    const binding = getBinding(id);
+    return binding ? formatBinding(binding) : "Add shortcut";
+  };
+
+  const execute = (command: Command) => {
+    stopRecording();
+    bottomSheet.close();
+    runCommand(command);
+  };
+
+  const createItem = (command: Command, index: number) => {
+    const item = document.createElement("li");
+    item.className = "command-list__item";
+
+    const runButton = document.createElement("button");
+    runButton.type = "button";
+    runButton.className = "command-list__run";
+    runButton.setAttribute("role", "option");
+    runButton.textContent = command.label;
+    runButton.addEventListener("click", () => execute(command));
+    runButton.addEventListener("mouseenter", () => {
+      activeIndex = index;
+      updateActiveItem();
+    });
+
+    const bindingButton = document.createElement("button");
+    bindingButton.type = "button";
+    bindingButton.className = "command-list__binding";
+    bindingButton.dataset.commandId = command.id;
+    bindingButton.textContent = describeBinding(command.id);
+    bindingButton.setAttribute(
+      "aria-label",
+      `Change the shortcut for ${command.label}`
+    );
+    bindingButton.addEventListener("click", () => {
+      startRecording(command, bindingButton);
+    });
+    bindingButton.addEventListener("blur", () => {
+      if (recordingId === command.id) {
+        stopRecording();
+      }
+    });
+
+    item.append(runButton, bindingButton);
+    return item;
+  };
+
+  const renderCommands = () => {
+    visibleCommands = filterCommands(getAvailableCommands(), searchInput.value);
+    activeIndex = 0;
+    list.innerHTML = "";
+    if (!visibleCommands.length) {
+      const empty = document.createElement("li");
+      empty.className = "note-sheet-empty";
+      empty.textContent = "No commands match that search.";
+      list.appendChild(empty);
+      return;
+    }
+    visibleCommands.forEach((command, index) => {
+      list.appendChild(createItem(command, index));
+    });
+    updateActiveItem();
+  };
+
+  const handleRecordingKeydown = async (event: KeyboardEvent) => {
+    const id = recordingId;
+    const command = getAvailableCommands().find(
+      (candidate) => candidate.id === id
+    );
+    if (!id || !command) {
+      return;
+    }
+    event.preventDefault();
+    event.stopImmediatePropagation();
+
+    if (event.key === "Escape") {
+      stopRecording();
+      return;
+    }
+    const binding = getEventBinding(event);
+    if (!binding) {
+      return;
+    }
+    if (binding === "Backspace" || binding === "Delete") {
+      stopRecording();
+      await setBinding(id, null);
+      setStatus(`Removed the shortcut for ${command.label}.`);
+      renderCommands();
+      return;
+    }
+    if (!isUsableBinding(binding)) {
+      setStatus("Shortcuts need Cmd, Ctrl or Alt. Press Escape to cancel.");
+      return;
+    }
+
+    stopRecording();
+    const displaced = await setBinding(id, binding);
+    const formatted = formatBinding(binding);
+    setStatus(
+      displaced
+        ? `${formatted} now runs ${command.label} instead of ${displaced}.`
+        : `${formatted} now runs ${command.label}.`
+    );
+    renderCommands();
+  };
+
+  const onRecordingKeydown = (event: KeyboardEvent) => {
+    void handleRecordingKeydown(event);
+  };
+
+  function startRecording(command: Command, button: HTMLButtonElement) {
+    stopRecording();
+    recordingId = command.id;
+    pauseShortcuts(true);
+    window.addEventListener("keydown", onRecordingKeydown, { capture: true });
+    button.textContent = "Press keys…";
+    button.classList.add("is-recording");
+    setStatus("Press the new shortcut. Backspace removes it, Escape cancels.");
+  }
+
+  function stopRecording() {
+    if (!recordingId) {
+      return;
+    }
+    const button = list?.querySelector<HTMLButtonElement>(
+      `[data-command-id='${recordingId}']`
+    );
+    if (button) {
+      button.textContent = describeBinding(recordingId);
+      button.classList.remove("is-recording");
+    }
+    recordingId = null;
+    pauseShortcuts(false);
+    window.removeEventListener("keydown", onRecordingKeydown, {
+      capture: true,
+    });
+  }
+
+  searchInput.addEventListener("input", () => {
+    renderCommands();
+  });
+
+  searchInput.addEventListener("keydown", (event) => {
+    if (event.isComposing || !visibleCommands.length) {
+      return;
+    }
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      activeIndex =
+        (activeIndex + step + visibleCommands.length) % visibleCommands.length;
+      updateActiveItem();
+      return;
+    }
+    if (event.key === "Enter") {
+      event.preventDefault();
+      execute(visibleCommands[activeIndex]);
+    }
+  });
+
+  query<HTMLButtonElement>("reset")?.addEventListener("click", async () => {
+    stopRecording();
+    await resetBindings();
+    setStatus("All shortcuts are back to their defaults.");
+    renderCommands();
+  });
+
+  query<HTMLButtonElement>("close")?.addEventListener("click", () => {
+    stopRecording();
+    bottomSheet.close();
+  });
+
+  const togglePalette = () => {
+    if (bottomSheet.getIsOpen()) {
+      stopRecording();
+      bottomSheet.close();
+      return;
+    }
+    searchInput.value = "";
+    setStatus("");
+    renderCommands();
+    bottomSheet.open();
+    window.setTimeout(() => {
+      searchInput.focus({ preventScroll: true });
+    }, 120);
+  };
+
+  registerCommand({
+    id: "command-palette",
+    label: "Show all commands",
+    keywords: ["palette", "shortcuts", "keyboard", "help"],
+    defaultBinding: "Mod+/",
+    needsPage: true,
+    run: togglePalette,
+  });
+
+  return true;
+}
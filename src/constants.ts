@@ -8,3 +8,12 @@ export const POP_OUT_BUTTON_ID = "popout";
 export const DEBOUNCE_DELAY_MS = 700;
 export const COLOR_SCHEME_BUTTON_ID = "color-scheme";
 export const COLOR_SCHEME_STORAGE_KEY = "color-scheme-preference";
+export const TABLE_HISTORY_NAME = "history";
+export const TABLE_SEARCH_NAME = "search";
+export const TABLE_LINKS_NAME = "links";
+export const TABLE_TRASH_NAME = "trash";
+export const NOTE_SORT_STORAGE_KEY = "note-sort-preference";
+export const SHORTCUT_BINDINGS_STORAGE_KEY = "shortcut-bindings";
+export const TABLE_IMAGES_NAME = "images";
+export const NOTE_TEMPLATES_STORAGE_KEY = "note-templates";
+export const DAILY_NOTE_TEMPLATE_STORAGE_KEY = "daily-note-template";
@@ -0,0 +1,183 @@
+import { createBottomSheet } from "@plainsheet/core";
+import { getNoteSelectionRange } from "./imageExport.ts";
+import { registerCommand } from "./shortcuts.ts";
+import { showToast } from "./toast.ts";
+import {
+  COPY_FORMAT_LABELS,
+  copyNoteMarkup,
+  type CopyFormat,
+} from "./utils/clipboardFormats.ts";
+
+type CopySheetOptions = {
+  noteElement: HTMLDivElement;
+};
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Copy note">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Copy note</h2>
+      <button type="button" class="note-sheet__close" data-copy="close" aria-label="Close copy note"></button>
+    </header>
+    <p class="note-sheet__intro">Rich text pastes with its formatting into email and documents. Pictures stay in Blinkpad.</p>
+    <div class="note-sheet__actions note-sheet__actions--start" data-copy="formats"></div>
+    <label class="note-sheet__checkbox">
+      <input type="checkbox" data-copy="selection" />
+      <span data-copy="selection-label">Only the selected text</span>
+    </label>
+    <p class="note-sheet__warning" data-copy="warning" hidden></p>
+  </section>
+`;
+
+const getRangeMarkup = (range: Range) => {
+  const scratch = document.createElement("div");
+  scratch.appendChild(range.cloneContents());
+  return scratch.innerHTML;
+};
+
+/**
+ * Copies the note, or the selected part of it, as rich text, plain text,
+ * Markdown or HTML source.
+ */
+export function setupCopySheet(
+  trigger: HTMLButtonElement,
+  { noteElement }: CopySheetOptions
+): boolean {
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Copy note",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Copy sheet content wrapper not found.");
+    return false;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-copy='${name}']`);
+
+  const formatContainer = query<HTMLElement>("formats");
+  const selectionInput = query<HTMLInputElement>("selection");
+  const selectionLabel = query<HTMLElement>("selection-label");
+  const warning = query<HTMLElement>("warning");
+  if (!formatContainer || !selectionInput) {
+    console.warn("Copy sheet elements are missing.");
+    return false;
+  }
+
+  // Taken when the sheet opens, since the sheet can move the selection.
+  let selection: Range | null = null;
+
+  const hideWarning = () => {
+    if (!warning) return;
+    warning.hidden = true;
+    warning.textContent = "";
+  };
+
+  const showWarning = (message: string) => {
+    if (!warning) return;
+    warning.textContent = message;
+    warning.hidden = false;
+  };
+
+  const copy = async (markup: string, format: CopyFormat) => {
+    const copied = await copyNoteMarkup(markup, format);
+    if (copied) {
+      showToast({
+        message: `Copied as ${COPY_FORMAT_LABELS[format].toLowerCase()}.`,
+      });
+    }
+    return copied;
+  };
+
+  const copyFromCommand = (markup: string) => {
+    void copy(markup, "rich").then((copied) => {
+      if (!copied) {
+        showToast({
+          message: "Copy failed. Your browser blocked clipboard access.",
+        });
+      }
+    });
+  };
+
+  (Object.keys(COPY_FORMAT_LABELS) as CopyFormat[]).forEach((format) => {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = "note-sheet__button";
+    if (format === "rich") {
+      button.classList.add("note-sheet__button--primary");
+    }
+    button.textContent = COPY_FORMAT_LABELS[format];
+    button.addEventListener("click", async () => {
+      hideWarning();
+      const markup =
+        selectionInput.checked && selection
+          ? getRangeMarkup(selection)
+          : noteElement.innerHTML;
+      if (!(await copy(markup, format))) {
+        showWarning("Copy failed. Your browser blocked clipboard access.");
+        return;
+      }
+      selection = null;
+      bottomSheet.close();
+    });
+    formatContainer.appendChild(button);
+  });
+
+  query<HTMLButtonElement>("close")?.addEventListener("click", () => {
+    selection = null;
+    bottomSheet.close();
+  });
+
+  const openSheet = () => {
+    selection = getNoteSelectionRange(noteElement);
+    selectionInput.checked = selection !== null;
+    selectionInput.disabled = selection === null;
+    if (selectionLabel) {
+      selectionLabel.textContent = selection
+        ? "Only the selected text"
+        : "Only the selected text (select some text in the note first)";
+    }
+    hideWarning();
+    bottomSheet.open();
+  };
+
+  trigger.addEventListener("click", openSheet);
+
+  registerCommand({
+    id: "copy-note",
+    label: "Copy note",
+    keywords: ["clipboard", "rich text", "html"],
+    run: () => copyFromCommand(noteElement.innerHTML),
+  });
+  registerCommand({
+    id: "copy-note-as",
+    label: "Copy note as…",
+    keywords: ["clipboard", "markdown", "plain text", "html"],
+    needsPage: true,
+    run: openSheet,
+  });
+  registerCommand({
+    id: "copy-selection",
+    label: "Copy selection",
+    keywords: ["clipboard", "rich text", "selected"],
+    defaultBinding: "Mod+Alt+C",
+    run: () => {
+      const range = getNoteSelectionRange(noteElement);
+      if (!range) {
+        showToast({ message: "Select some text in the note first." });
+        return;
+      }
+      copyFromCommand(getRangeMarkup(range));
+    },
+  });
+
+  return true;
+}
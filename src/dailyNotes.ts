@@ -0,0 +1,143 @@
+import type { NoteSync } from "./note.ts";
+import { registerCommand } from "./shortcuts.ts";
+import { showToast } from "./toast.ts";
+import {
+  addDays,
+  formatDailyNoteTitle,
+  formatDayKey,
+  getDailyNoteSlug,
+  parseDailyNoteSlug,
+  prepareDailyNote,
+} from "./utils/dailyNotes.ts";
+import { getNoteLocation } from "./utils/noteUrl.ts";
+
+type DailyNotesOptions = {
+  noteElement: HTMLDivElement;
+  noteSync: NoteSync;
+};
+
+const DAY_BAR_TEMPLATE = `
+  <button type="button" class="daily-nav__button" data-daily-nav="previous">
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M15 6l-6 6l6 6" /></svg>
+  </button>
+  <span class="daily-nav__title" data-daily-nav="title"></span>
+  <button type="button" class="daily-nav__button" data-daily-nav="next">
+    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M9 6l6 6l-6 6" /></svg>
+  </button>
+  <button type="button" class="daily-nav__today" data-daily-nav="today" hidden>Today</button>
+`;
+
+/**
+ * Opens the daily note of a day, filling a missing one from the daily note
+ * template first.
+ */
+export async function openDailyNote(date: Date): Promise<void> {
+  const slug = await prepareDailyNote(date);
+  if (!slug) {
+    showToast({ message: "We couldn't start that daily note." });
+    return;
+  }
+  window.location.assign(getNoteLocation(slug));
+}
+
+const openAdjacentDay = (date: Date, days: number) => {
+  window.location.assign(
+    getNoteLocation(getDailyNoteSlug(addDays(date, days)))
+  );
+};
+
+/**
+ * Adds the Today button and, on daily notes, a bar above the editor that
+ * steps to the previous or next day. Stepping only opens the other day;
+ * the template is applied when a day is opened from Today or the calendar.
+ */
+export function setupDailyNotes({ noteElement, noteSync }: DailyNotesOptions) {
+  const noteDate = parseDailyNoteSlug(noteSync.slug);
+  const isToday = () =>
+    noteDate !== null && formatDayKey(noteDate) === formatDayKey(new Date());
+
+  const todayTrigger = document.getElementById("today");
+  if (todayTrigger instanceof HTMLButtonElement) {
+    todayTrigger.addEventListener("click", () => {
+      if (!isToday()) {
+        void openDailyNote(new Date());
+      }
+    });
+  } else {
+    console.warn("#today button is missing; daily note button unavailable.");
+  }
+
+  registerCommand({
+    id: "daily-note",
+    label: "Open today's note",
+    keywords: ["daily", "journal", "today", "date"],
+    defaultBinding: "Mod+Alt+D",
+    needsPage: true,
+    isAvailable: () => !isToday(),
+    run: () => void openDailyNote(new Date()),
+  });
+
+  registerCommand({
+    id: "daily-previous",
+    label: "Previous daily note",
+    keywords: ["daily", "journal", "yesterday", "day"],
+    isAvailable: () => noteDate !== null,
+    run: () => {
+      if (noteDate) openAdjacentDay(noteDate, -1);
+    },
+  });
+  registerCommand({
+    id: "daily-next",
+    label: "Next daily note",
+    keywords: ["daily", "journal", "tomorrow", "day"],
+    isAvailable: () => noteDate !== null,
+    run: () => {
+      if (noteDate) openAdjacentDay(noteDate, 1);
+    },
+  });
+
+  if (!noteDate) {
+    return;
+  }
+
+  const dayBar = document.createElement("div");
+  dayBar.className = "daily-nav";
+  dayBar.setAttribute("role", "navigation");
+  dayBar.setAttribute("aria-label", "Daily notes");
+  dayBar.innerHTML = DAY_BAR_TEMPLATE;
+  noteElement.before(dayBar);
+
+  const query = <T extends HTMLElement>(name: string) =>
+    dayBar.querySelector<T>(`[data-daily-nav='${name}']`);
+
+  const previousButton = query<HTMLButtonElement>("previous");
+  const nextButton = query<HTMLButtonElement>("next");
+  const title = query<HTMLElement>("title");
+  const todayButton = query<HTMLButtonElement>("today");
+  if (!previousButton || !nextButton || !title) {
+    console.warn("Daily note bar elements are missing.");
+    dayBar.remove();
+    return;
+  }
+
+  const previousLabel = formatDailyNoteTitle(addDays(noteDate, -1));
+  const nextLabel = formatDailyNoteTitle(addDays(noteDate, 1));
+  previousButton.setAttribute("aria-label", `Previous day, ${previousLabel}`);
+  previousButton.title = previousLabel;
+  nextButton.setAttribute("aria-label", `Next day, ${nextLabel}`);
+  nextButton.title = nextLabel;
+  title.textContent = formatDailyNoteTitle(noteDate);
+
+  previousButton.addEventListener("click", () => {
+    openAdjacentDay(noteDate, -1);
+  });
+  nextButton.addEventListener("click", () => {
+    openAdjacentDay(noteDate, 1);
+  });
+  if (todayButton) {
+    todayButton.hidden = isToday();
+    todayButton.addEventListener("click", () => {
+      void openDailyNote(new Date());
+    });
+  }
+}
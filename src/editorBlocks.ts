@@ -0,0 +1,44 @@
+/** The top-level line holding the node, when the node is inside the note. */
+export const getCaretLine = (noteElement: HTMLDivElement, node: Node) => {
+  let current: Node | null = node;
+  while (current && current.parentNode !== noteElement) {
+    current = current.parentNode;
+  }
+  // Checked by node type since the editor may live in the PiP window's realm.
+  return current?.nodeType === Node.ELEMENT_NODE
+    ? (current as HTMLElement)
+    : null;
+};
+
+/** Swaps a line for another element, keeping its inline content. */
+export const retagLine = (
+  line: HTMLElement,
+  tagName: string,
+  attributes: Record<string, string> = {}
+) => {
+  const replacement = line.ownerDocument.createElement(tagName);
+  Object.entries(attributes).forEach(([name, value]) => {
+    replacement.setAttribute(name, value);
+  });
+  while (line.firstChild) {
+    replacement.appendChild(line.firstChild);
+  }
+  if (!replacement.textContent) {
+    replacement.innerHTML = "<br>";
+  }
+  line.replaceWith(replacement);
+  return replacement;
+};
+
+/** Puts a collapsed caret at the given position in the editor's document. */
+export const placeCaret = (
+  ownerDocument: Document,
+  setPosition: (range: Range) => void
+) => {
+  const range = ownerDocument.createRange();
+  setPosition(range);
+  range.collapse(true);
+  const selection = ownerDocument.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+};
@@ -0,0 +1,84 @@
+import { findHashtags } from "./utils/hashtags.ts";
+
+const HIGHLIGHT_NAME = "note-hashtag";
+
+type HighlightWindow = Window & typeof globalThis;
+
+const getHighlightWindow = (element: HTMLElement): HighlightWindow | null => {
+  const view = element.ownerDocument?.defaultView as HighlightWindow | null;
+  if (!view || typeof view.Highlight !== "function" || !view.CSS?.highlights) {
+    return null;
+  }
+  return view;
+};
+
+const collectHashtagRanges = (element: HTMLElement): Range[] => {
+  const ownerDocument = element.ownerDocument ?? document;
+  const walker = ownerDocument.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const ranges: Range[] = [];
+  while (walker.nextNode()) {
+    const textNode = walker.currentNode as Text;
+    if (textNode.parentElement?.closest("a")) {
+      continue;
+    }
+    findHashtags(textNode.data).forEach((match) => {
+      const range = ownerDocument.createRange();
+      range.setStart(textNode, match.start);
+      range.setEnd(textNode, match.end);
+      ranges.push(range);
+    });
+  }
+  return ranges;
+};
+
+/**
+ * Paints hashtags in the editor as chips through the CSS Custom Highlight
+ * API, which leaves the stored markup untouched. Browsers without the API
+ * simply show plain text.
+ */
+export function setupHashtagHighlights(noteElement: HTMLDivElement): void {
+  if (!getHighlightWindow(noteElement)) {
+    return;
+  }
+
+  let registeredWindow: HighlightWindow | null = null;
+  let frameId: number | null = null;
+
+  const refresh = () => {
+    frameId = null;
+    const view = getHighlightWindow(noteElement);
+    if (registeredWindow && registeredWindow !== view) {
+      registeredWindow.CSS.highlights.delete(HIGHLIGHT_NAME);
+    }
+    registeredWindow = view;
+    if (!view) {
+      return;
+    }
+    const ranges = collectHashtagRanges(noteElement);
+    if (!ranges.length) {
+      view.CSS.highlights.delete(HIGHLIGHT_NAME);
+      return;
+    }
+    view.CSS.highlights.set(HIGHLIGHT_NAME, new view.Highlight(...ranges));
+  };
+
+  const scheduleRefresh = () => {
+    if (frameId !== null) {
+      return;
+    }
+    const view = noteElement.ownerDocument?.defaultView ?? window;
+    frameId = view.requestAnimationFrame(refresh);
+  };
+
+  // Moving the editor into the PiP window does not mutate it, but focuses it.
+  noteElement.addEventListener("focus", scheduleRefresh);
+
+  const observer = new MutationObserver(scheduleRefresh);
+  observer.observe(noteElement, {
+    childList: true,
+    characterData: true,
+    subtree: true,
+  });
+
+  refresh();
+}
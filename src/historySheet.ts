@@ -0,0 +1,296 @@
+import { createBottomSheet } from "@plainsheet/core";
+import type { NoteSync } from "./note.ts";
+import { registerCommand } from "./shortcuts.ts";
+import { loadNoteSnapshots, type NoteSnapshot } from "./utils/noteHistory.ts";
+import {
+  diffSequences,
+  markupToLines,
+  type DiffOperation,
+} from "./utils/textDiff.ts";
+
+type HistorySheetOptions = {
+  noteElement: HTMLDivElement;
+  noteSync: NoteSync;
+};
+
+type DiffSummary = {
+  added: number;
+  removed: number;
+};
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Note history">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Version history</h2>
+      <button type="button" class="note-sheet__close" data-note-history="close" aria-label="Close version history"></button>
+    </header>
+    <p class="note-sheet__intro">Snapshots are taken as you write. Pick one to compare it with the current note and restore it.</p>
+    <div class="note-sheet__body">
+      <div data-note-history="list" class="note-sheet-list" role="list"></div>
+      <div data-note-history="preview" class="note-history-preview" hidden>
+        <p class="note-sheet__hint" data-note-history="label"></p>
+        <ol class="note-history-diff" data-note-history="diff"></ol>
+        <div class="note-sheet__actions">
+          <button type="button" class="note-sheet__button" data-note-history="back">Back</button>
+          <button type="button" class="note-sheet__button note-sheet__button--primary" data-note-history="restore">Restore this version</button>
+        </div>
+      </div>
+    </div>
+  </section>
+`;
+
+const DIFF_CONTEXT_LINES = 2;
+
+const formatSnapshotTime = (timestamp: number) => {
+  const elapsedMs = Date.now() - timestamp;
+  if (elapsedMs < 60 * 1000) {
+    return "Just now";
+  }
+  if (elapsedMs < 60 * 60 * 1000) {
+    const minutes = Math.round(elapsedMs / (60 * 1000));
+    return new Intl.RelativeTimeFormat(undefined, { numeric: "auto" }).format(
+      -minutes,
+      "minute"
+    );
+  }
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+};
+
+const summarizeDiff = (operations: DiffOperation<string>[]): DiffSummary => {
+  return operations.reduce<DiffSummary>(
+    (summary, operation) => {
+      if (operation.type === "insert") summary.added += 1;
+      if (operation.type === "delete") summary.removed += 1;
+      return summary;
+    },
+    { added: 0, removed: 0 }
+  );
+};
+
+const describeSummary = ({ added, removed }: DiffSummary) => {
+  if (!added && !removed) {
+    return "Same as current note";
+  }
+  return `+${added} −${removed} lines`;
+};
+
+const createDiffLine = (operation: DiffOperation<string>) => {
+  const line = document.createElement("li");
+  line.className = `note-history-diff__line note-history-diff__line--${operation.type}`;
+  const marker =
+    operation.type === "insert" ? "+" : operation.type === "delete" ? "−" : " ";
+  line.dataset.marker = marker;
+  line.textContent = operation.value || " ";
+  return line;
+};
+
+const createCollapsedLine = (count: number) => {
+  const line = document.createElement("li");
+  line.className = "note-history-diff__line note-history-diff__line--collapsed";
+  line.textContent = `… ${count} unchanged line${count === 1 ? "" : "s"}`;
+  return line;
+};
+
+export function setupHistorySheet({
+  noteElement,
+  noteSync,
+}: HistorySheetOptions): void {
+  const trigger = document.getElementById("history");
+  if (!(trigger instanceof HTMLButtonElement)) {
+    console.warn("#history button is missing; version history unavailable.");
+    return;
+  }
+
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Version history",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("History sheet content wrapper not found.");
+    return;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-note-history='${name}']`);
+
+  const listContainer = query<HTMLElement>("list");
+  const preview = query<HTMLElement>("preview");
+  const previewLabel = query<HTMLElement>("label");
+  const diffContainer = query<HTMLOListElement>("diff");
+  const restoreButton = query<HTMLButtonElement>("restore");
+  if (
+    !listContainer ||
+    !preview ||
+    !previewLabel ||
+    !diffContainer ||
+    !restoreButton
+  ) {
+    console.warn("History sheet elements are missing.");
+    return;
+  }
+
+  let selectedSnapshot: NoteSnapshot | null = null;
+  let renderSequence = 0;
+
+  const showList = () => {
+    selectedSnapshot = null;
+    preview.hidden = true;
+    listContainer.hidden = false;
+  };
+
+  const renderDiff = (snapshot: NoteSnapshot) => {
+    const operations = diffSequences(
+      markupToLines(noteElement.innerHTML),
+      markupToLines(snapshot.content)
+    );
+
+    diffContainer.innerHTML = "";
+    let pendingEqual: DiffOperation<string>[] = [];
+
+    const flushEqual = (isLeading: boolean, isTrailing: boolean) => {
+      const head = isLeading ? 0 : DIFF_CONTEXT_LINES;
+      const tail = isTrailing ? 0 : DIFF_CONTEXT_LINES;
+      if (pendingEqual.length <= head + tail + 1) {
+        pendingEqual.forEach((operation) => {
+          diffContainer.appendChild(createDiffLine(operation));
+        });
+      } else {
+        pendingEqual.slice(0, head).forEach((operation) => {
+          diffContainer.appendChild(createDiffLine(operation));
+        });
+        diffContainer.appendChild(
+          createCollapsedLine(pendingEqual.length - head - tail)
+        );
+        pendingEqual.slice(pendingEqual.length - tail).forEach((operation) => {
+          diffContainer.appendChild(createDiffLine(operation));
+        });
+      }
+      pendingEqual = [];
+    };
+
+    let hasChanges = false;
+    operations.forEach((operation) => {
+      if (operation.type === "equal") {
+        pendingEqual.push(operation);
+        return;
+      }
+      flushEqual(!hasChanges, false);
+      hasChanges = true;
+      diffContainer.appendChild(createDiffLine(operation));
+    });
+    flushEqual(!hasChanges, true);
+
+    previewLabel.textContent = hasChanges
+      ? `${formatSnapshotTime(snapshot.createdAt)} · + comes back, − goes away on restore`
+      : `${formatSnapshotTime(snapshot.createdAt)} · identical to the current note`;
+    restoreButton.disabled = !hasChanges;
+  };
+
+  const showSnapshot = (snapshot: NoteSnapshot) => {
+    selectedSnapshot = snapshot;
+    renderDiff(snapshot);
+    listContainer.hidden = true;
+    preview.hidden = false;
+  };
+
+  const renderSnapshots = async () => {
+    const renderId = ++renderSequence;
+    showList();
+    listContainer.innerHTML =
+      '<div class="note-sheet-empty"><p>Loading…</p></div>';
+
+    const snapshots = await loadNoteSnapshots(noteSync.slug);
+    if (renderId !== renderSequence) {
+      return;
+    }
+
+    listContainer.innerHTML = "";
+
+    if (!snapshots.length) {
+      const emptyState = document.createElement("div");
+      emptyState.className = "note-sheet-empty";
+      emptyState.innerHTML =
+        "<p>No history yet.</p><p>Snapshots appear here as soon as this note is saved.</p>";
+      listContainer.appendChild(emptyState);
+      return;
+    }
+
+    const currentLines = markupToLines(noteElement.innerHTML);
+    const listElement = document.createElement("ul");
+    listElement.className = "note-history-list";
+
+    snapshots.forEach((snapshot) => {
+      const item = document.createElement("li");
+      item.className = "note-history-list__item";
+
+      const button = document.createElement("button");
+      button.type = "button";
+      button.className = "note-history-entry";
+
+      const time = document.createElement("span");
+      time.className = "note-card__title";
+      time.textContent = formatSnapshotTime(snapshot.createdAt);
+
+      const summary = document.createElement("span");
+      summary.className = "note-card__meta";
+      summary.textContent = describeSummary(
+        summarizeDiff(
+          diffSequences(currentLines, markupToLines(snapshot.content))
+        )
+      );
+
+      button.append(time, summary);
+      button.addEventListener("click", () => {
+        showSnapshot(snapshot);
+      });
+
+      item.appendChild(button);
+      listElement.appendChild(item);
+    });
+
+    listContainer.appendChild(listElement);
+  };
+
+  query<HTMLButtonElement>("close")?.addEventListener("click", () => {
+    bottomSheet.close();
+  });
+
+  query<HTMLButtonElement>("back")?.addEventListener("click", () => {
+    showList();
+  });
+
+  restoreButton.addEventListener("click", () => {
+    if (!selectedSnapshot) {
+      return;
+    }
+    noteSync.commit(selectedSnapshot.content);
+    bottomSheet.close();
+  });
+
+  const openSheet = () => {
+    void renderSnapshots();
+    bottomSheet.open();
+  };
+
+  trigger.addEventListener("click", openSheet);
+
+  registerCommand({
+    id: "note-history",
+    label: "Show version history",
+    keywords: ["snapshots", "restore", "undo"],
+    needsPage: true,
+    run: openSheet,
+  });
+}
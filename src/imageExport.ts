@@ -1,55 +1,226 @@
 import html2canvas from "html2canvas";
+import { createExportFileName } from "./utils/fileName.ts";
 
-function resolveNoteBackgroundColor(element: HTMLElement): string {
-  const ownerDocument = element.ownerDocument ?? document;
-  const defaultView = ownerDocument.defaultView ?? window;
-
-  const elementBackground =
-    defaultView.getComputedStyle(element).backgroundColor;
-  if (
-    elementBackground &&
-    elementBackground !== "transparent" &&
-    elementBackground !== "rgba(0, 0, 0, 0)"
-  ) {
-    return elementBackground;
+export type ImageExportTheme = "current" | "light" | "dark";
+
+export type ImageExportOptions = {
+  theme: ImageExportTheme;
+  /** Width in CSS pixels; null keeps the width the note has on screen. */
+  width: number | null;
+  padding: number;
+  scale: number;
+  /** Adds the note's title and today's date below the content. */
+  footer: boolean;
+  /** Exports only this part of the note when set. */
+  selection: Range | null;
+};
+
+// Larger canvases come out blank or fail to encode; Safari has the lowest caps.
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16777216;
+
+export function getDefaultImageExportOptions(): ImageExportOptions {
+  return {
+    theme: "current",
+    width: null,
+    padding: 32,
+    scale: Math.min(3, Math.max(1, Math.round(window.devicePixelRatio || 1))),
+    footer: false,
+    selection: null,
+  };
+}
+
+/** The selected part of the note, or null when nothing in it is selected. */
+export function getNoteSelectionRange(
+  noteElement: HTMLDivElement
+): Range | null {
+  const selection = noteElement.ownerDocument.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) {
+    return null;
   }
+  const range = selection.getRangeAt(0);
+  return noteElement.contains(range.commonAncestorContainer)
+    ? range.cloneRange()
+    : null;
+}
 
-  const rootBackground = ownerDocument.documentElement
-    ? defaultView
-        .getComputedStyle(ownerDocument.documentElement)
-        .getPropertyValue("--background-color")
-        .trim()
-    : "";
-  if (rootBackground) {
-    return rootBackground;
+const getNoteTitle = (noteElement: HTMLDivElement) => {
+  const firstLine = noteElement.firstElementChild?.textContent ?? "";
+  return firstLine.replace(/\u200b/g, "").trim() || document.title || "Note";
+};
+
+/**
+ * Lays the content out off screen the way it should look in the image. The
+ * copy keeps the `contenteditable` attribute, which the note styles key on,
+ * and the frame paints the theme's background itself.
+ */
+function createExportFrame(
+  noteElement: HTMLDivElement,
+  options: ImageExportOptions
+) {
+  const frame = document.createElement("div");
+  frame.className = "image-export-frame";
+  frame.setAttribute("aria-hidden", "true");
+  frame.style.width = `${options.width ?? noteElement.clientWidth}px`;
+
+  const content = document.createElement("div");
+  content.setAttribute("contenteditable", "false");
+  content.className = "image-export-frame__content";
+  content.style.padding = `${options.padding}px`;
+  if (options.selection) {
+    content.appendChild(options.selection.cloneContents());
+  } else {
+    content.innerHTML = noteElement.innerHTML;
   }
+  frame.appendChild(content);
 
-  const body = ownerDocument.body ?? document.body;
-  return defaultView.getComputedStyle(body).backgroundColor;
-}
+  if (options.footer) {
+    const footer = document.createElement("div");
+    footer.className = "image-export-frame__footer";
+    footer.style.padding = `0 ${options.padding}px ${options.padding}px`;
+    const title = document.createElement("span");
+    title.textContent = getNoteTitle(noteElement);
+    const date = document.createElement("span");
+    date.textContent = new Date().toLocaleDateString(undefined, {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+    footer.append(title, date);
+    frame.appendChild(footer);
+  }
 
-function createImageFileName(): string {
-  const baseTitle = (document.title || "note").trim().toLowerCase();
-  const normalisedBase =
-    baseTitle.replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "note";
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  return `${normalisedBase}-${timestamp}.png`;
+  document.body.appendChild(frame);
+  return frame;
 }
 
-export async function exportNoteAsImage(noteElement: HTMLDivElement) {
-  const backgroundColor = resolveNoteBackgroundColor(noteElement);
-  const canvas = await html2canvas(noteElement, {
-    backgroundColor,
-    scale: window.devicePixelRatio || 1,
+async function renderFrame(
+  frame: HTMLElement,
+  options: ImageExportOptions,
+  scale: number,
+  tile?: { y: number; height: number }
+) {
+  return html2canvas(frame, {
+    backgroundColor: null,
+    scale,
     useCORS: true,
+    ...tile,
+    onclone: (clonedDocument) => {
+      if (options.theme !== "current") {
+        clonedDocument.documentElement.dataset.theme = options.theme;
+      }
+    },
   });
+}
+
+const getCanvasScale = (width: number, scale: number) => {
+  return Math.min(scale, MAX_CANVAS_SIDE / Math.max(width, 1));
+};
+
+function downloadCanvas(canvas: HTMLCanvasElement, fileName: string) {
   const dataUrl = canvas.toDataURL("image/png");
   const downloadLink = document.createElement("a");
   downloadLink.href = dataUrl;
-  downloadLink.download = createImageFileName();
+  downloadLink.download = fileName;
   downloadLink.rel = "noopener";
   document.body.appendChild(downloadLink);
   downloadLink.click();
   downloadLink.remove();
 }
 
+/**
+ * Saves the note as a PNG. Notes taller than a canvas may be are cut into
+ * tiles, saved top to bottom as numbered images. Resolves with the number
+ * of images saved.
+ */
+export async function exportNoteAsImage(
+  noteElement: HTMLDivElement,
+  options: ImageExportOptions = getDefaultImageExportOptions()
+): Promise<number> {
+  const frame = createExportFrame(noteElement, options);
+  try {
+    const width = Math.ceil(frame.scrollWidth);
+    const height = Math.ceil(frame.scrollHeight);
+    const scale = getCanvasScale(width, options.scale);
+    const tileHeight = Math.floor(
+      Math.min(MAX_CANVAS_SIDE, MAX_CANVAS_AREA / (width * scale)) / scale
+    );
+
+    const tileCount = Math.max(1, Math.ceil(height / tileHeight));
+    if (tileCount === 1) {
+      const canvas = await renderFrame(frame, options, scale);
+      downloadCanvas(canvas, createExportFileName("png"));
+      return 1;
+    }
+
+    const baseTitle = document.title || "note";
+    for (let index = 0; index < tileCount; index += 1) {
+      const y = index * tileHeight;
+      const canvas = await renderFrame(frame, options, scale, {
+        y,
+        height: Math.min(tileHeight, height - y),
+      });
+      downloadCanvas(
+        canvas,
+        createExportFileName("png", `${baseTitle} ${index + 1} of ${tileCount}`)
+      );
+    }
+    return tileCount;
+  } finally {
+    frame.remove();
+  }
+}
+
+export function isImageClipboardSupported(): boolean {
+  return (
+    typeof ClipboardItem !== "undefined" &&
+    typeof navigator.clipboard?.write === "function"
+  );
+}
+
+/**
+ * Copies the note as one PNG. A note too tall for a canvas is scaled down
+ * to fit instead of being split. Resolves with false when it wasn't copied.
+ */
+export async function copyNoteImage(
+  noteElement: HTMLDivElement,
+  options: ImageExportOptions = getDefaultImageExportOptions()
+): Promise<boolean> {
+  if (!isImageClipboardSupported()) {
+    return false;
+  }
+  const frame = createExportFrame(noteElement, options);
+  // Safari only accepts the item while the click is being handled, so the
+  // image is handed over as a promise.
+  const blob = (async () => {
+    try {
+      const width = Math.ceil(frame.scrollWidth);
+      const height = Math.ceil(frame.scrollHeight);
+      const scale = Math.min(
+        getCanvasScale(width, options.scale),
+        MAX_CANVAS_SIDE / Math.max(height, 1),
+        Math.sqrt(MAX_CANVAS_AREA / Math.max(width * height, 1))
+      );
+      const canvas = await renderFrame(frame, options, scale);
+      return await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob((result) => {
+          if (result) {
+            resolve(result);
+          } else {
+            reject(new Error("The canvas could not be encoded."));
+          }
+        }, "image/png");
+      });
+    } finally {
+      frame.remove();
+    }
+  })();
+
+  try {
+    await navigator.clipboard.write([new ClipboardItem({ "image/png": blob })]);
+    return true;
+  } catch (error) {
+    console.error("Unable to copy note image", error);
+    return false;
+  }
+}
@@ -0,0 +1,292 @@
+import { createBottomSheet } from "@plainsheet/core";
+import type { NoteSync } from "./note.ts";
+import {
+  copyNoteImage,
+  exportNoteAsImage,
+  getDefaultImageExportOptions,
+  getNoteSelectionRange,
+  isImageClipboardSupported,
+  type ImageExportOptions,
+  type ImageExportTheme,
+} from "./imageExport.ts";
+import { registerCommand } from "./shortcuts.ts";
+import { showToast } from "./toast.ts";
+
+type ImageExportSheetOptions = {
+  noteElement: HTMLDivElement;
+  noteSync: NoteSync;
+};
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Export as image">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Export as image</h2>
+      <button type="button" class="note-sheet__close" data-image-export="close" aria-label="Close export as image"></button>
+    </header>
+    <form class="note-sheet__form" data-image-export="form">
+      <div class="note-sheet__fields">
+        <label class="note-sheet__label">
+          <span>Theme</span>
+          <select data-image-export="theme">
+            <option value="current">As shown</option>
+            <option value="light">Light</option>
+            <option value="dark">Dark</option>
+          </select>
+        </label>
+        <label class="note-sheet__label">
+          <span>Width</span>
+          <select data-image-export="width">
+            <option value="">As shown</option>
+            <option value="600">Narrow, 600px</option>
+            <option value="800">Medium, 800px</option>
+            <option value="1200">Wide, 1200px</option>
+          </select>
+        </label>
+        <label class="note-sheet__label">
+          <span>Padding</span>
+          <select data-image-export="padding">
+            <option value="0">None</option>
+            <option value="16">Small</option>
+            <option value="32">Medium</option>
+            <option value="64">Large</option>
+          </select>
+        </label>
+        <label class="note-sheet__label">
+          <span>Scale</span>
+          <select data-image-export="scale">
+            <option value="1">1×</option>
+            <option value="2">2×</option>
+            <option value="3">3×</option>
+          </select>
+        </label>
+      </div>
+      <label class="note-sheet__checkbox">
+        <input type="checkbox" data-image-export="footer" />
+        <span>Add the title and date below the note</span>
+      </label>
+      <label class="note-sheet__checkbox">
+        <input type="checkbox" data-image-export="selection" />
+        <span data-image-export="selection-label">Only the selected text</span>
+      </label>
+      <p class="note-sheet__warning" data-image-export="warning" hidden></p>
+      <div class="note-sheet__actions">
+        <button type="button" class="note-sheet__button" data-image-export="cancel">Cancel</button>
+        <button type="button" class="note-sheet__button" data-image-export="copy" hidden>Copy image</button>
+        <button type="submit" class="note-sheet__button note-sheet__button--primary" data-image-export="submit">Download PNG</button>
+      </div>
+    </form>
+  </section>
+`;
+
+const THEMES: ImageExportTheme[] = ["current", "light", "dark"];
+
+/**
+ * Lets the image export pick a theme, size and footer, limit itself to the
+ * selected text, and copy the PNG instead of downloading it. The choices
+ * are kept until the page is closed.
+ */
+export function setupImageExportSheet(
+  trigger: HTMLButtonElement,
+  { noteElement, noteSync }: ImageExportSheetOptions
+): boolean {
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Export as image",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Image export sheet content wrapper not found.");
+    return false;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-image-export='${name}']`);
+
+  const form = query<HTMLFormElement>("form");
+  const themeSelect = query<HTMLSelectElement>("theme");
+  const widthSelect = query<HTMLSelectElement>("width");
+  const paddingSelect = query<HTMLSelectElement>("padding");
+  const scaleSelect = query<HTMLSelectElement>("scale");
+  const footerInput = query<HTMLInputElement>("footer");
+  const selectionInput = query<HTMLInputElement>("selection");
+  const selectionLabel = query<HTMLElement>("selection-label");
+  const warning = query<HTMLElement>("warning");
+  const copyButton = query<HTMLButtonElement>("copy");
+  const submitButton = query<HTMLButtonElement>("submit");
+  if (
+    !form ||
+    !themeSelect ||
+    !widthSelect ||
+    !paddingSelect ||
+    !scaleSelect ||
+    !footerInput ||
+    !selectionInput ||
+    !copyButton ||
+    !submitButton
+  ) {
+    console.warn("Image export sheet form elements are missing.");
+    return false;
+  }
+
+  let options = getDefaultImageExportOptions();
+  // Taken when the sheet opens, since using the form can move the selection.
+  let selection: Range | null = null;
+  let isBusy = false;
+
+  const hideWarning = () => {
+    if (!warning) return;
+    warning.hidden = true;
+    warning.textContent = "";
+  };
+
+  const showWarning = (message: string) => {
+    if (!warning) return;
+    warning.textContent = message;
+    warning.hidden = false;
+  };
+
+  const renderOptions = () => {
+    themeSelect.value = options.theme;
+    widthSelect.value = options.width === null ? "" : String(options.width);
+    paddingSelect.value = String(options.padding);
+    scaleSelect.value = String(options.scale);
+    footerInput.checked = options.footer;
+    selectionInput.checked = selection !== null;
+    selectionInput.disabled = selection === null;
+    if (selectionLabel) {
+      selectionLabel.textContent = selection
+        ? "Only the selected text"
+        : "Only the selected text (select some text in the note first)";
+    }
+  };
+
+  const readOptions = (): ImageExportOptions => {
+    const theme = THEMES.find((value) => value === themeSelect.value);
+    const width = Number.parseInt(widthSelect.value, 10);
+    options = {
+      theme: theme ?? "current",
+      width: Number.isFinite(width) ? width : null,
+      padding: Number.parseInt(paddingSelect.value, 10) || 0,
+      scale: Number.parseInt(scaleSelect.value, 10) || 1,
+      footer: footerInput.checked,
+      selection: null,
+    };
+    return {
+      ...options,
+      selection: selectionInput.checked ? selection : null,
+    };
+  };
+
+  const setBusy = (busy: boolean) => {
+    isBusy = busy;
+    copyButton.disabled = busy;
+    submitButton.disabled = busy;
+  };
+
+  const close = () => {
+    selection = null;
+    bottomSheet.close();
+  };
+
+  const download = async (exportOptions: ImageExportOptions) => {
+    try {
+      const imageCount = await exportNoteAsImage(noteElement, exportOptions);
+      if (imageCount > 1) {
+        showToast({
+          message: `The note was too long for one image, so it was saved as ${imageCount} images.`,
+        });
+      }
+      return true;
+    } catch (error) {
+      console.error("Unable to export note as image", error);
+      return false;
+    }
+  };
+
+  const copy = async (exportOptions: ImageExportOptions) => {
+    const copied = await copyNoteImage(noteElement, exportOptions);
+    if (copied) {
+      showToast({ message: "Image copied to the clipboard." });
+    }
+    return copied;
+  };
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    if (isBusy) return;
+    hideWarning();
+    setBusy(true);
+    const exported = await download(readOptions());
+    setBusy(false);
+    if (!exported) {
+      showWarning("We couldn't create the image. Please try again.");
+      return;
+    }
+    close();
+  });
+
+  if (isImageClipboardSupported()) {
+    copyButton.hidden = false;
+    // The copy has to start while the click is being handled.
+    copyButton.addEventListener("click", async () => {
+      if (isBusy) return;
+      hideWarning();
+      setBusy(true);
+      const copied = await copy(readOptions());
+      setBusy(false);
+      if (!copied) {
+        showWarning("The browser didn't allow copying the image.");
+        return;
+      }
+      close();
+    });
+  }
+
+  query<HTMLButtonElement>("close")?.addEventListener("click", close);
+  query<HTMLButtonElement>("cancel")?.addEventListener("click", close);
+
+  const openSheet = () => {
+    selection = getNoteSelectionRange(noteElement);
+    hideWarning();
+    renderOptions();
+    bottomSheet.open();
+  };
+
+  trigger.addEventListener("click", openSheet);
+
+  registerCommand({
+    id: "export-image",
+    label: "Export note as image",
+    keywords: ["png", "picture", "download", "screenshot"],
+    needsPage: true,
+    isAvailable: () => !noteSync.locked,
+    run: openSheet,
+  });
+  registerCommand({
+    id: "copy-note-image",
+    label: "Copy note as image",
+    keywords: ["png", "picture", "clipboard", "screenshot"],
+    needsPage: true,
+    isAvailable: () => !noteSync.locked && isImageClipboardSupported(),
+    run: () => {
+      void copy({
+        ...options,
+        selection: getNoteSelectionRange(noteElement),
+      }).then((copied) => {
+        if (!copied) {
+          showToast({ message: "The browser didn't allow copying the image." });
+        }
+      });
+    },
+  });
+
+  return true;
+}
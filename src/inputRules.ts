@@ -0,0 +1,228 @@
+import { getCaretLine, placeCaret, retagLine } from "./editorBlocks.ts";
+
+type Conversion = {
+  /** Nodes the rule left in the note, in document order. */
+  result: Node[];
+  /** Copy of the line as it was right before the rule fired. */
+  original: Node;
+  /** Where the caret was in the original line, as a text offset. */
+  caretOffset: number;
+};
+
+type BlockRule = {
+  trigger: string;
+  pattern: RegExp;
+  apply(line: HTMLElement): { result: Node[]; caretTarget: Node };
+};
+
+const BOLD_PATTERN = /\*\*([^*\s](?:[^*\n]*[^*\s])?)\*\*$/;
+
+const wrapInList = (line: HTMLElement, tagName: "ul" | "ol") => {
+  const list = line.ownerDocument.createElement(tagName);
+  const item = retagLine(line, "li");
+  item.replaceWith(list);
+  list.appendChild(item);
+  return { result: [list], caretTarget: item };
+};
+
+const BLOCK_RULES: BlockRule[] = [
+  {
+    trigger: " ",
+    pattern: /^#{1,6} $/,
+    apply: (line) => {
+      const heading = retagLine(line, "h2");
+      return { result: [heading], caretTarget: heading };
+    },
+  },
+  {
+    trigger: " ",
+    pattern: /^[-*+] $/,
+    apply: (line) => wrapInList(line, "ul"),
+  },
+  {
+    trigger: " ",
+    pattern: /^\d+[.)] $/,
+    apply: (line) => wrapInList(line, "ol"),
+  },
+  {
+    trigger: " ",
+    pattern: /^\[ ?\] $/,
+    apply: (line) => {
+      const task = retagLine(line, "div", { "data-task": "todo" });
+      return { result: [task], caretTarget: task };
+    },
+  },
+  {
+    trigger: "-",
+    pattern: /^---$/,
+    apply: (line) => {
+      const divider = line.ownerDocument.createElement("hr");
+      line.before(divider);
+      if (!line.textContent) {
+        line.innerHTML = "<br>";
+      }
+      return { result: [divider, line], caretTarget: line };
+    },
+  },
+];
+
+const getTextOffset = (line: HTMLElement, node: Node, offset: number) => {
+  const range = line.ownerDocument.createRange();
+  range.setStart(line, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+};
+
+const placeCaretAtTextOffset = (line: Node, offset: number) => {
+  const ownerDocument = line.ownerDocument ?? document;
+  const walker = ownerDocument.createTreeWalker(line, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  while (walker.nextNode()) {
+    const text = walker.currentNode as Text;
+    if (remaining <= text.length) {
+      placeCaret(ownerDocument, (range) => range.setStart(text, remaining));
+      return;
+    }
+    remaining -= text.length;
+  }
+  placeCaret(ownerDocument, (range) => range.setStart(line, 0));
+};
+
+export type InputRules = {
+  /** Runs the rules for an input event; returns true when one fired. */
+  apply(event: InputEvent): boolean;
+};
+
+/**
+ * Markdown shortcuts while typing: `# `, `- `, `1. `, `[] ` and `---` at
+ * the start of a line and `**text**` anywhere. Backspace straight after a
+ * conversion puts the typed characters back.
+ */
+export function createInputRules(noteElement: HTMLDivElement): InputRules {
+  let lastConversion: Conversion | null = null;
+
+  const getCaret = () => {
+    const selection = noteElement.ownerDocument?.getSelection();
+    if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) {
+      return null;
+    }
+    const { anchorNode, anchorOffset } = selection;
+    if (anchorNode?.nodeType !== Node.TEXT_NODE) {
+      return null;
+    }
+    const line = getCaretLine(noteElement, anchorNode);
+    return line
+      ? { line, node: anchorNode as Text, offset: anchorOffset }
+      : null;
+  };
+
+  const applyBlockRule = (trigger: string) => {
+    const caret = getCaret();
+    if (!caret || !caret.line.matches("div:not([data-task]), p")) {
+      return false;
+    }
+    const { line, node, offset } = caret;
+    const range = line.ownerDocument.createRange();
+    range.setStart(line, 0);
+    range.setEnd(node, offset);
+    const typed = range.toString();
+    const rule = BLOCK_RULES.find(
+      (candidate) =>
+        candidate.trigger === trigger && candidate.pattern.test(typed)
+    );
+    // A divider only replaces a line holding nothing but the dashes.
+    if (!rule || (trigger === "-" && line.textContent !== typed)) {
+      return false;
+    }
+
+    const original = line.cloneNode(true);
+    range.deleteContents();
+    line.normalize();
+    const { result, caretTarget } = rule.apply(line);
+    placeCaret(line.ownerDocument, (caretRange) =>
+      caretRange.setStart(caretTarget, 0)
+    );
+    lastConversion = { result, original, caretOffset: typed.length };
+    return true;
+  };
+
+  const applyBoldRule = () => {
+    const caret = getCaret();
+    if (!caret || caret.line.matches("pre")) {
+      return false;
+    }
+    const { line, node, offset } = caret;
+    const match = node.data.slice(0, offset).match(BOLD_PATTERN);
+    if (!match || node.parentElement?.closest("b, a")) {
+      return false;
+    }
+
+    const original = line.cloneNode(true);
+    const caretOffset = getTextOffset(line, node, offset);
+    const ownerDocument = line.ownerDocument;
+    const start = offset - match[0].length;
+    const after = ownerDocument.createTextNode(node.data.slice(offset));
+    const bold = ownerDocument.createElement("b");
+    bold.textContent = match[1];
+    node.data = node.data.slice(0, start);
+    node.after(bold, after);
+    placeCaret(ownerDocument, (range) => range.setStart(after, 0));
+    lastConversion = { result: [line], original, caretOffset };
+    return true;
+  };
+
+  const revert = () => {
+    const conversion = lastConversion;
+    lastConversion = null;
+    if (!conversion || !conversion.result.every((node) => node.isConnected)) {
+      return false;
+    }
+    const [first, ...rest] = conversion.result;
+    first.parentNode?.insertBefore(conversion.original, first);
+    first.parentNode?.removeChild(first);
+    rest.forEach((node) => node.parentNode?.removeChild(node));
+    placeCaretAtTextOffset(conversion.original, conversion.caretOffset);
+    return true;
+  };
+
+  noteElement.addEventListener("keydown", (event) => {
+    if (
+      !lastConversion ||
+      ["Shift", "Alt", "Control", "Meta"].includes(event.key)
+    ) {
+      return;
+    }
+    const isPlainBackspace =
+      event.key === "Backspace" &&
+      !event.metaKey &&
+      !event.ctrlKey &&
+      !event.altKey &&
+      !event.isComposing;
+    if (isPlainBackspace && revert()) {
+      event.preventDefault();
+      noteElement.dispatchEvent(new Event("input", { bubbles: true }));
+      return;
+    }
+    lastConversion = null;
+  });
+
+  noteElement.addEventListener("mousedown", () => {
+    lastConversion = null;
+  });
+
+  const apply = (event: InputEvent) => {
+    lastConversion = null;
+    if (event.isComposing || event.inputType !== "insertText") {
+      return false;
+    }
+    if (event.data === " " || event.data === "-") {
+      return applyBlockRule(event.data);
+    }
+    if (event.data === "*") {
+      return applyBoldRule();
+    }
+    return false;
+  };
+
+  return { apply };
+}
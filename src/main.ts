@@ -1,6 +1,7 @@
 import "microtip/microtip.css";
 import "./styles/app.css";
 import "./styles/sheet.css";
+import "./styles/print.css";
 import "./app";
 
 if ("serviceWorker" in navigator) {
@@ -0,0 +1,182 @@
+import { createBottomSheet } from "@plainsheet/core";
+import type { NoteSync } from "./note.ts";
+import { registerCommand } from "./shortcuts.ts";
+import { createExportFileName } from "./utils/fileName.ts";
+import { markdownToNoteHtml, noteHtmlToMarkdown } from "./utils/markdown.ts";
+
+type MarkdownSheetOptions = {
+  noteElement: HTMLDivElement;
+  noteSync: NoteSync;
+};
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Markdown import and export">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Markdown</h2>
+      <button type="button" class="note-sheet__close" data-markdown="close" aria-label="Close Markdown"></button>
+    </header>
+    <div class="note-sheet__actions note-sheet__actions--start">
+      <button type="button" class="note-sheet__button" data-markdown="copy">Copy as Markdown</button>
+      <button type="button" class="note-sheet__button" data-markdown="download">Download .md</button>
+    </div>
+    <form class="note-sheet__form" data-markdown="form">
+      <label class="note-sheet__label">
+        <span>Paste Markdown as formatted note</span>
+        <textarea class="note-sheet__textarea" rows="6" spellcheck="false" placeholder="# Title&#10;Some **highlighted** text" data-markdown="input"></textarea>
+        <span class="note-sheet__hint">Leave empty to use your clipboard. It is added below the current note.</span>
+      </label>
+      <p class="note-sheet__warning" data-markdown="warning" hidden></p>
+      <div class="note-sheet__actions">
+        <button type="submit" class="note-sheet__button note-sheet__button--primary">Add to note</button>
+      </div>
+    </form>
+    <p class="note-sheet__hint" data-markdown="status" role="status" aria-live="polite"></p>
+  </section>
+`;
+
+const STATUS_RESET_DELAY_MS = 2000;
+
+const readClipboardText = async (): Promise<string> => {
+  try {
+    return (await navigator.clipboard?.readText?.()) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+export function setupMarkdownSheet({
+  noteElement,
+  noteSync,
+}: MarkdownSheetOptions): void {
+  const trigger = document.getElementById("markdown");
+  if (!(trigger instanceof HTMLButtonElement)) {
+    console.warn("#markdown button is missing; Markdown tools unavailable.");
+    return;
+  }
+
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Markdown",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Markdown sheet content wrapper not found.");
+    return;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-markdown='${name}']`);
+
+  const form = query<HTMLFormElement>("form");
+  const input = query<HTMLTextAreaElement>("input");
+  const warning = query<HTMLElement>("warning");
+  const status = query<HTMLElement>("status");
+  if (!form || !input) {
+    console.warn("Markdown sheet form elements are missing.");
+    return;
+  }
+
+  let statusTimeoutId: number | undefined;
+
+  const showStatus = (message: string) => {
+    if (!status) return;
+    status.textContent = message;
+    window.clearTimeout(statusTimeoutId);
+    statusTimeoutId = window.setTimeout(() => {
+      status.textContent = "";
+    }, STATUS_RESET_DELAY_MS);
+  };
+
+  const hideWarning = () => {
+    if (!warning) return;
+    warning.hidden = true;
+    warning.textContent = "";
+  };
+
+  const showWarning = (message: string) => {
+    if (!warning) return;
+    warning.textContent = message;
+    warning.hidden = false;
+  };
+
+  const getNoteMarkdown = () => noteHtmlToMarkdown(noteElement.innerHTML);
+
+  query<HTMLButtonElement>("copy")?.addEventListener("click", async () => {
+    try {
+      await navigator.clipboard.writeText(getNoteMarkdown());
+      showStatus("Markdown copied to the clipboard.");
+    } catch (error) {
+      console.error("Unable to copy note as Markdown", error);
+      showStatus("Copy failed. Your browser blocked clipboard access.");
+    }
+  });
+
+  query<HTMLButtonElement>("download")?.addEventListener("click", () => {
+    const blob = new Blob([getNoteMarkdown()], {
+      type: "text/markdown;charset=utf-8",
+    });
+    const objectUrl = URL.createObjectURL(blob);
+    const downloadLink = document.createElement("a");
+    downloadLink.href = objectUrl;
+    downloadLink.download = createExportFileName("md");
+    downloadLink.rel = "noopener";
+    document.body.appendChild(downloadLink);
+    downloadLink.click();
+    downloadLink.remove();
+    window.setTimeout(() => URL.revokeObjectURL(objectUrl), 0);
+  });
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    hideWarning();
+
+    const markdown = input.value.trim() || (await readClipboardText()).trim();
+    if (!markdown) {
+      showWarning("Paste some Markdown first, or copy it to your clipboard.");
+      return;
+    }
+
+    const converted = markdownToNoteHtml(markdown);
+    if (!converted) {
+      showWarning("That Markdown has no content to add.");
+      return;
+    }
+
+    const isEmpty = noteElement.getAttribute("data-empty") === "true";
+    noteSync.commit(
+      isEmpty ? converted : `${noteElement.innerHTML}${converted}`
+    );
+    input.value = "";
+    bottomSheet.close();
+  });
+
+  query<HTMLButtonElement>("close")?.addEventListener("click", () => {
+    bottomSheet.close();
+  });
+
+  const openSheet = () => {
+    hideWarning();
+    if (status) {
+      status.textContent = "";
+    }
+    bottomSheet.open();
+  };
+
+  trigger.addEventListener("click", openSheet);
+
+  registerCommand({
+    id: "markdown",
+    label: "Import or export Markdown",
+    keywords: ["md", "download", "copy"],
+    needsPage: true,
+    run: openSheet,
+  });
+}
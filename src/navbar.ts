@@ -1,10 +1,22 @@
 import { exportNoteAsImage } from "./imageExport.ts";
-import { openPiPWindow } from "./pip.ts";
+import { closePiPWindow, isPiPWindowOpen, openPiPWindow } from "./pip.ts";
 import { setupColorSchemeManagement } from "./colorScheme.ts";
 import { POP_OUT_BUTTON_ID, COLOR_SCHEME_BUTTON_ID } from "./constants.ts";
-import { restoreNote, type NotePlacement, type NoteSync } from "./note.ts";
+import {
+  restoreNote,
+  type NotePlacement,
+  type NoteSync,
+  type SaveState,
+} from "./note.ts";
 import { isMobileDevice } from "./utils/device.ts";
 import { setupNewNoteSheet } from "./newNoteSheet.ts";
+import { setupTemplateSheet } from "./templateSheet.ts";
+import { setupImageExportSheet } from "./imageExportSheet.ts";
+import { setupCopySheet } from "./copySheet.ts";
+import { setupShareSheet } from "./shareSheet.ts";
+import { copyNoteMarkup } from "./utils/clipboardFormats.ts";
+import { registerCommand } from "./shortcuts.ts";
+import { showToast } from "./toast.ts";
 
 type NavbarOptions = {
   context: NotePlacement;
@@ -35,7 +47,30 @@ function getButtonById(
   return element;
 }
 
-function setupPopOutButton(context: NotePlacement) {
+const SAVE_STATE_LABELS: Record<SaveState, string> = {
+  dirty: "Unsaved changes",
+  saving: "Saving…",
+  saved: "All changes saved",
+  error: "Changes not saved",
+};
+
+function setupSaveStateIndicator(noteSync: NoteSync) {
+  const indicator = document.getElementById("save-state");
+  if (!indicator) {
+    console.warn("#save-state element is missing; save state unavailable.");
+    return;
+  }
+
+  const render = (state: SaveState) => {
+    indicator.dataset.state = state;
+    indicator.setAttribute("aria-label", SAVE_STATE_LABELS[state]);
+  };
+
+  render(noteSync.saveState);
+  noteSync.onSaveStateChange(render);
+}
+
+function setupPopOutButton(context: NotePlacement, noteSync: NoteSync) {
   const popOutTrigger = getButtonById(POP_OUT_BUTTON_ID, {
     missing: `#${POP_OUT_BUTTON_ID} button is missing; PiP will be unavailable.`,
     invalid: `#${POP_OUT_BUTTON_ID} element is not a button; PiP will be unavailable.`,
@@ -48,24 +83,42 @@ function setupPopOutButton(context: NotePlacement) {
   }
 
   popOutTrigger.addEventListener("click", () => {
-    openPiPWindow(context).catch((error) => {
-      console.error("Unable to open PiP window", error);
-      restoreNote(context);
-    });
+    openPiP(context, noteSync);
   });
 }
 
-function setupPiPKeyboardShortcut(context: NotePlacement) {
-  if (isMobileDevice()) {
-    return;
-  }
+function openPiP(context: NotePlacement, noteSync: NoteSync) {
+  const beforeClose = () => noteSync.flush();
+  openPiPWindow(context, { beforeClose }).catch((error) => {
+    console.error("Unable to open PiP window", error);
+    restoreNote(context);
+  });
+}
+
+function shareNote(noteElement: HTMLDivElement) {
+  try {
+    navigator.share?.({
+      title: document.title || "Note",
+      text: noteElement.outerText,
+    });
+  } catch {}
+}
+
+function copyNote(noteElement: HTMLDivElement) {
+  void copyNoteMarkup(noteElement.innerHTML, "rich");
+}
 
-  window.addEventListener("keydown", (event) => {
-    if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "p") {
-      event.preventDefault();
-      openPiPWindow(context);
+async function exportImage(noteElement: HTMLDivElement) {
+  try {
+    const imageCount = await exportNoteAsImage(noteElement);
+    if (imageCount > 1) {
+      showToast({
+        message: `The note was too long for one image, so it was saved as ${imageCount} images.`,
+      });
     }
-  });
+  } catch (error) {
+    console.error("Unable to export note as image", error);
+  }
 }
 
 function setupNewNoteButton(noteElement: HTMLDivElement, noteSync: NoteSync) {
@@ -75,7 +128,10 @@ function setupNewNoteButton(noteElement: HTMLDivElement, noteSync: NoteSync) {
   });
   if (!newNoteTrigger) return;
 
-  const sheetInitialized = setupNewNoteSheet(newNoteTrigger);
+  const templateSheet = setupTemplateSheet({ noteElement, noteSync });
+  const sheetInitialized = setupNewNoteSheet(newNoteTrigger, {
+    onSaveTemplate: templateSheet?.open,
+  });
   if (sheetInitialized) {
     return;
   }
@@ -90,20 +146,19 @@ function setupNewNoteButton(noteElement: HTMLDivElement, noteSync: NoteSync) {
   });
 }
 
-function setupShareButton(noteElement: HTMLDivElement) {
+function setupShareButton(noteElement: HTMLDivElement, noteSync: NoteSync) {
   const shareNoteTrigger = getButtonById("share", {
     missing: "#share button is missing; share action unavailable.",
     invalid: "#share element is not a button; share action unavailable.",
   });
   if (!shareNoteTrigger) return;
 
+  if (setupShareSheet(shareNoteTrigger, { noteElement, noteSync })) {
+    return;
+  }
+
   shareNoteTrigger.addEventListener("click", () => {
-    try {
-      navigator.share?.({
-        title: document.title || "Note",
-        text: noteElement.outerText,
-      });
-    } catch {}
+    shareNote(noteElement);
   });
 }
 
@@ -114,29 +169,33 @@ function setupCopyButton(noteElement: HTMLDivElement) {
   });
   if (!copyNoteTrigger) return;
 
+  if (setupCopySheet(copyNoteTrigger, { noteElement })) {
+    return;
+  }
+
   copyNoteTrigger.addEventListener("click", () => {
-    try {
-      navigator.clipboard.writeText(noteElement.innerHTML || "");
-    } catch {}
+    copyNote(noteElement);
   });
 }
 
-function setupImageExportButton(noteElement: HTMLDivElement) {
+function setupImageExportButton(
+  noteElement: HTMLDivElement,
+  noteSync: NoteSync
+) {
   const imageExportButton = getButtonById("image-export", {
     missing: "#image-export button is missing; image export unavailable.",
     invalid: "#image-export element is not a button; image export unavailable.",
   });
   if (!imageExportButton) return;
 
+  if (setupImageExportSheet(imageExportButton, { noteElement, noteSync })) {
+    return;
+  }
+
   imageExportButton.addEventListener("click", async () => {
     imageExportButton.disabled = true;
-    try {
-      await exportNoteAsImage(noteElement);
-    } catch (error) {
-      console.error("Unable to export note as image", error);
-    } finally {
-      imageExportButton.disabled = false;
-    }
+    await exportImage(noteElement);
+    imageExportButton.disabled = false;
   });
 }
 
@@ -145,17 +204,47 @@ function setupColorSchemeToggle() {
     missing: `#${COLOR_SCHEME_BUTTON_ID} button is missing; color scheme toggle unavailable.`,
     invalid: `#${COLOR_SCHEME_BUTTON_ID} element is not a button; color scheme toggle unavailable.`,
   });
-  void setupColorSchemeManagement(colorSchemeButton);
+  return setupColorSchemeManagement(colorSchemeButton);
+}
+
+function registerNavbarCommands(
+  context: NotePlacement,
+  noteSync: NoteSync,
+  cycleColorScheme: Promise<() => void>
+) {
+  registerCommand({
+    id: "toggle-pip",
+    label: "Toggle floating mini window",
+    keywords: ["pip", "pop out", "picture in picture"],
+    defaultBinding: "Mod+P",
+    isAvailable: () => !isMobileDevice(),
+    run: () => {
+      if (isPiPWindowOpen()) {
+        closePiPWindow();
+        return;
+      }
+      openPiP(context, noteSync);
+    },
+  });
+  registerCommand({
+    id: "toggle-color-scheme",
+    label: "Switch color scheme",
+    keywords: ["theme", "dark", "light", "mode"],
+    run: () => {
+      void cycleColorScheme.then((cycle) => cycle());
+    },
+  });
 }
 
 export function setupNavbar({ context, noteElement, noteSync }: NavbarOptions) {
-  setupColorSchemeToggle();
-  setupPopOutButton(context);
-  setupPiPKeyboardShortcut(context);
+  const cycleColorScheme = setupColorSchemeToggle();
+  setupPopOutButton(context, noteSync);
+  setupSaveStateIndicator(noteSync);
+  registerNavbarCommands(context, noteSync, cycleColorScheme);
   setupNewNoteButton(noteElement, noteSync);
-  setupShareButton(noteElement);
+  setupShareButton(noteElement, noteSync);
   setupCopyButton(noteElement);
-  setupImageExportButton(noteElement);
+  setupImageExportButton(noteElement, noteSync);
 }
 
 export {};
@@ -1,6 +1,19 @@
 import { createBottomSheet } from "@plainsheet/core";
-import { NOTE_KEY_PREFIX } from "./constants.ts";
-import storage from "./storage.ts";
+import { registerCommand } from "./shortcuts.ts";
+import { getNoteStorageKey, writeStoredValue } from "./utils/noteStorage.ts";
+import {
+  deleteNoteTemplate,
+  expandTemplate,
+  loadNoteTemplates,
+  type NoteTemplate,
+} from "./utils/noteTemplates.ts";
+import { getNoteLocation } from "./utils/noteUrl.ts";
+import { doesSlugExist, isReservedSlug, slugify } from "./utils/slug.ts";
+
+type NewNoteSheetOptions = {
+  /** Opens the form that saves the current note as a template. */
+  onSaveTemplate?: () => void;
+};
 
 type NewNoteSheetElements = {
   form: HTMLFormElement | null;
@@ -8,6 +21,10 @@ type NewNoteSheetElements = {
   warning: HTMLElement | null;
   closeButton: HTMLButtonElement | null;
   cancelButton: HTMLButtonElement | null;
+  templateField: HTMLElement | null;
+  templateSelect: HTMLSelectElement | null;
+  deleteTemplateButton: HTMLButtonElement | null;
+  saveTemplateButton: HTMLButtonElement | null;
 };
 
 const SHEET_TEMPLATE = `
@@ -23,6 +40,15 @@ const SHEET_TEMPLATE = `
         <input type="text" inputmode="text" autocapitalize="none" autocomplete="off" spellcheck="false" maxlength="64" name="project-plans" placeholder="project-plans" data-new-note="input" />
         <span class="note-sheet__hint">Use lowercase letters, numbers, and dashes. Leave blank to auto-generate.</span>
       </label>
+      <label class="note-sheet__label" data-new-note="template-field" hidden>
+        <span>Template</span>
+        <select data-new-note="template"></select>
+        <span class="note-sheet__hint">{{date}}, {{time}} and {{title}} are filled in for you.</span>
+      </label>
+      <div class="note-sheet__actions note-sheet__actions--start">
+        <button type="button" class="note-sheet__button" data-new-note="delete-template" hidden>Delete template</button>
+        <button type="button" class="note-sheet__button" data-new-note="save-template" hidden>Save current note as template</button>
+      </div>
       <p class="note-sheet__warning" data-new-note="warning" hidden></p>
       <div class="note-sheet__actions">
         <button type="button" class="note-sheet__button" data-new-note="cancel">Cancel</button>
@@ -32,18 +58,6 @@ const SHEET_TEMPLATE = `
   </section>
 `;
 
-const RESERVED_KEYS = new Set(["", "root"]);
-
-const slugify = (value: string) => {
-  return value
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9-\s]/g, "")
-    .replace(/\s+/g, "-")
-    .replace(/-+/g, "-")
-    .replace(/^-|-$/g, "");
-};
-
 const generateRandomSlug = (): string => {
   const array = new Uint32Array(2);
   if (
@@ -62,24 +76,6 @@ const generateRandomSlug = (): string => {
   return slug.slice(0, 9) || Math.random().toString(36).slice(2, 11);
 };
 
-const doesSlugExist = async (slug: string): Promise<boolean> => {
-  try {
-    const storageKey = `${NOTE_KEY_PREFIX}${slug}`;
-    const value = await storage.getItem<string>(storageKey);
-    return value !== null;
-  } catch (error) {
-    console.warn("Unable to read storage to verify note key", error);
-    return false;
-  }
-};
-
-const buildTargetUrl = (slug: string) => {
-  if (slug === "root") {
-    return "/";
-  }
-  return `/?s=${encodeURIComponent(slug)}`;
-};
-
 const collectElements = (
   contentWrapper: HTMLElement | null
 ): NewNoteSheetElements => {
@@ -90,6 +86,10 @@ const collectElements = (
       warning: null,
       closeButton: null,
       cancelButton: null,
+      templateField: null,
+      templateSelect: null,
+      deleteTemplateButton: null,
+      saveTemplateButton: null,
     };
   }
 
@@ -109,10 +109,25 @@ const collectElements = (
     cancelButton: contentWrapper.querySelector<HTMLButtonElement>(
       "[data-new-note='cancel']"
     ),
+    templateField: contentWrapper.querySelector<HTMLElement>(
+      "[data-new-note='template-field']"
+    ),
+    templateSelect: contentWrapper.querySelector<HTMLSelectElement>(
+      "[data-new-note='template']"
+    ),
+    deleteTemplateButton: contentWrapper.querySelector<HTMLButtonElement>(
+      "[data-new-note='delete-template']"
+    ),
+    saveTemplateButton: contentWrapper.querySelector<HTMLButtonElement>(
+      "[data-new-note='save-template']"
+    ),
   };
 };
 
-export function setupNewNoteSheet(trigger: HTMLButtonElement): boolean {
+export function setupNewNoteSheet(
+  trigger: HTMLButtonElement,
+  { onSaveTemplate }: NewNoteSheetOptions = {}
+): boolean {
   const bottomSheet = createBottomSheet({
     ariaLabel: "Create note",
     shouldShowBackdrop: true,
@@ -131,8 +146,17 @@ export function setupNewNoteSheet(trigger: HTMLButtonElement): boolean {
     return false;
   }
 
-  const { form, input, warning, closeButton, cancelButton } =
-    collectElements(contentWrapper);
+  const {
+    form,
+    input,
+    warning,
+    closeButton,
+    cancelButton,
+    templateField,
+    templateSelect,
+    deleteTemplateButton,
+    saveTemplateButton,
+  } = collectElements(contentWrapper);
 
   if (!form || !input) {
     console.warn("Create note sheet form elements are missing.");
@@ -151,9 +175,44 @@ export function setupNewNoteSheet(trigger: HTMLButtonElement): boolean {
     warning.hidden = false;
   };
 
+  let templates: NoteTemplate[] = [];
+  let renderSequence = 0;
+
+  const getSelectedTemplate = () => {
+    const id = templateSelect?.value;
+    return templates.find((template) => template.id === id) ?? null;
+  };
+
+  const updateTemplateActions = () => {
+    if (deleteTemplateButton) {
+      deleteTemplateButton.hidden = !getSelectedTemplate();
+    }
+  };
+
+  const renderTemplates = async () => {
+    if (!templateSelect || !templateField) {
+      return;
+    }
+    const renderId = ++renderSequence;
+    const loaded = await loadNoteTemplates();
+    if (renderId !== renderSequence) {
+      return;
+    }
+    templates = loaded;
+    templateSelect.innerHTML = "";
+    templateSelect.append(new Option("Blank note", ""));
+    templates.forEach((template) => {
+      templateSelect.append(new Option(template.name, template.id));
+    });
+    templateSelect.value = "";
+    templateField.hidden = templates.length === 0;
+    updateTemplateActions();
+  };
+
   const resetForm = () => {
     input.value = "";
     hideWarning();
+    void renderTemplates();
   };
 
   const focusInput = () => {
@@ -168,40 +227,21 @@ export function setupNewNoteSheet(trigger: HTMLButtonElement): boolean {
     focusInput();
   };
 
-  const isNewNoteShortcut = (event: KeyboardEvent) => {
-    if (event.defaultPrevented || event.isComposing || event.repeat) {
-      return false;
-    }
-    if (event.altKey || event.shiftKey) {
-      return false;
-    }
-    const key = event.key?.toLowerCase();
-    if (key !== "j") {
-      return false;
-    }
-    return event.metaKey || event.ctrlKey;
-  };
-
-  const handleNewNoteShortcut = (event: KeyboardEvent) => {
-    if (!isNewNoteShortcut(event)) {
-      return;
-    }
-    event.preventDefault();
-    event.stopImmediatePropagation();
-    openSheet();
-  };
-
   const navigateToSlug = (slug: string) => {
-    const targetUrl = buildTargetUrl(slug);
-    window.location.assign(targetUrl);
+    window.location.assign(getNoteLocation(slug));
   };
 
   trigger.addEventListener("click", () => {
     openSheet();
   });
 
-  window.addEventListener("keydown", handleNewNoteShortcut, {
-    capture: true,
+  registerCommand({
+    id: "new-note",
+    label: "New note",
+    keywords: ["create", "add"],
+    defaultBinding: "Mod+J",
+    needsPage: true,
+    run: openSheet,
   });
 
   closeButton?.addEventListener("click", () => {
@@ -212,6 +252,29 @@ export function setupNewNoteSheet(trigger: HTMLButtonElement): boolean {
     bottomSheet.close();
   });
 
+  templateSelect?.addEventListener("change", updateTemplateActions);
+
+  deleteTemplateButton?.addEventListener("click", async () => {
+    const template = getSelectedTemplate();
+    if (!template) {
+      return;
+    }
+    hideWarning();
+    if (!(await deleteNoteTemplate(template.id))) {
+      showWarning("We couldn't delete that template. Please try again.");
+      return;
+    }
+    await renderTemplates();
+  });
+
+  if (saveTemplateButton && onSaveTemplate) {
+    saveTemplateButton.hidden = false;
+    saveTemplateButton.addEventListener("click", () => {
+      bottomSheet.close();
+      onSaveTemplate();
+    });
+  }
+
   form.addEventListener("submit", async (event) => {
     event.preventDefault();
     hideWarning();
@@ -235,7 +298,7 @@ export function setupNewNoteSheet(trigger: HTMLButtonElement): boolean {
       return;
     }
 
-    if (RESERVED_KEYS.has(slug)) {
+    if (isReservedSlug(slug)) {
       showWarning("That key is reserved. Please pick another name.");
       return;
     }
@@ -245,6 +308,18 @@ export function setupNewNoteSheet(trigger: HTMLButtonElement): boolean {
       return;
     }
 
+    // The note page picks the content up like any other stored note.
+    const template = getSelectedTemplate();
+    if (template) {
+      const content = expandTemplate(template.content, {
+        title: rawValue.trim() || "Untitled note",
+      });
+      if (!(await writeStoredValue(getNoteStorageKey(slug), content))) {
+        showWarning("We couldn't create the note. Please try again.");
+        return;
+      }
+    }
+
     navigateToSlug(slug);
   });
   return true;
@@ -1,12 +1,52 @@
 import DOMPurify from "dompurify";
-import { compressToUTF16, decompressFromUTF16 } from "lz-string";
 import {
   DEBOUNCE_DELAY_MS,
   NOTE_KEY_PREFIX,
   DEFAULT_STORAGE_KEY,
 } from "./constants.ts";
-import storage from "./storage.ts";
-import { deleteNoteMetadata, saveNoteMetadata } from "./utils/noteMetadata.ts";
+import {
+  getNoteStorageKey,
+  isNoteEncrypted,
+  isNoteLocked,
+  lockStoredValue,
+  moveStoredValueKey,
+  protectStoredValue,
+  readStoredValue,
+  unlockStoredValue,
+  unprotectStoredValue,
+  writeStoredValue,
+} from "./utils/noteStorage.ts";
+import { loadNoteMetadataMap, saveNoteMetadata } from "./utils/noteMetadata.ts";
+import { moveNoteToTrash } from "./utils/noteTrash.ts";
+import { showTrashUndoToast } from "./trashUndo.ts";
+import {
+  deleteNoteHistory,
+  recordNoteSnapshot,
+  type PreviousNoteContent,
+} from "./utils/noteHistory.ts";
+import {
+  extractSearchableText,
+  indexNoteContent,
+  removeNoteFromIndex,
+} from "./utils/searchIndex.ts";
+import { extractHashtags } from "./utils/hashtags.ts";
+import { indexNoteLinks, removeNoteLinks } from "./utils/backlinks.ts";
+import { createInputRules } from "./inputRules.ts";
+import { hydrateNoteImages, tryHandleImagePaste } from "./noteImages.ts";
+import { getNoteLocation } from "./utils/noteUrl.ts";
+import { stripImageSources } from "./utils/imageStore.ts";
+import { diffSequences } from "./utils/textDiff.ts";
+import { mapTextOffset, mergeMarkup } from "./utils/textMerge.ts";
+import {
+  TAB_ID,
+  createNotePrivacyMessage,
+  createNoteUpdateMessage,
+  isNewerRevision,
+  observeRevision,
+  parseSyncMessage,
+  type NoteUpdateMessage,
+  type RevisionStamp,
+} from "./utils/syncProtocol.ts";
 
 type DebouncedFunction<T extends (...args: any[]) => void> = ((
   ...args: Parameters<T>
@@ -18,49 +58,8 @@ function getStorageKey(): string {
   return scope ? `${NOTE_KEY_PREFIX}${scope}` : DEFAULT_STORAGE_KEY;
 }
 
-async function writeStoredValue(
-  storageKey: string,
-  value: string
-): Promise<void> {
-  try {
-    await storage.setItem(storageKey, compressToUTF16(value));
-  } catch (error) {
-    console.error("Unable to persist note content", error);
-  }
-}
-
-async function readStoredValue(storageKey: string): Promise<string> {
-  try {
-    const storedValue = await storage.getItem<string>(storageKey);
-    if (storedValue === null) {
-      return "";
-    }
-
-    try {
-      const decompressed = decompressFromUTF16(storedValue);
-      if (decompressed !== null) {
-        return decompressed;
-      }
-    } catch {
-      /* ignore malformed compressed content and fall back to raw value */
-    }
-
-    return storedValue;
-  } catch (error) {
-    console.error("Unable to read stored note content", error);
-    return "";
-  }
-}
-
-async function removeStoredValue(storageKey: string): Promise<void> {
-  try {
-    await storage.removeItem(storageKey);
-  } catch (error) {
-    console.error("Unable to remove stored note content", error);
-  }
-}
-
-function sanitizeHtml(markup: string): string {
+/** Markup reduced to what the editor accepts, for pastes and shared notes. */
+export function sanitizeHtml(markup: string): string {
   return DOMPurify.sanitize(markup, {
     USE_PROFILES: { html: true },
     ADD_ATTR: ["contenteditable", "target"],
@@ -226,6 +225,12 @@ function tryHandleUrlPaste(
 const NON_TEXT_CONTENT_SELECTOR =
   "img, svg, canvas, video, audio, object, embed, iframe, picture, figure, hr";
 
+const EMPTY_NOTE_MARKUP = "<div><br></div>";
+
+// Blocks that are worth keeping while still empty, such as a heading that
+// was just started on the first line.
+const EMPTY_BLOCK_SELECTOR = "h1, h2, h3, ul, ol, pre, [data-task]";
+
 function normalizeNoteElement(element: HTMLDivElement): string {
   const ownerDocument = element.ownerDocument ?? document;
   const textContent = element.textContent ?? "";
@@ -235,9 +240,12 @@ function normalizeNoteElement(element: HTMLDivElement): string {
     trimmedText === "" &&
     element.querySelector(NON_TEXT_CONTENT_SELECTOR) !== null;
 
-  if (!trimmedText && !hasNonTextContent) {
-    if (element.innerHTML !== "<div><br></div>") {
-      element.innerHTML = "<div><br></div>";
+  const hasEmptyBlock =
+    trimmedText === "" && element.querySelector(EMPTY_BLOCK_SELECTOR) !== null;
+
+  if (!trimmedText && !hasNonTextContent && !hasEmptyBlock) {
+    if (element.innerHTML !== EMPTY_NOTE_MARKUP) {
+      element.innerHTML = EMPTY_NOTE_MARKUP;
     }
     element.setAttribute("data-empty", "true");
     return element.innerHTML;
@@ -265,7 +273,7 @@ function normalizeNoteElement(element: HTMLDivElement): string {
     element.appendChild(wrapper);
   }
 
-  return element.innerHTML;
+  return stripImageSources(element.innerHTML);
 }
 
 function updateDocumentTitles(sourceElement: HTMLDivElement) {
@@ -345,6 +353,138 @@ function normalizeMarkup(markup: string, ownerDocument: Document): string {
   return normalizeNoteElement(container as HTMLDivElement);
 }
 
+type TextSelectionOffsets = {
+  start: number;
+  end: number;
+};
+
+function getTextOffset(element: HTMLElement, node: Node, offset: number) {
+  const range = (element.ownerDocument ?? document).createRange();
+  range.selectNodeContents(element);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+function captureSelectionOffsets(
+  element: HTMLElement
+): TextSelectionOffsets | null {
+  const selection = element.ownerDocument?.getSelection();
+  if (!selection || selection.rangeCount === 0) {
+    return null;
+  }
+  const range = selection.getRangeAt(0);
+  if (
+    !element.contains(range.startContainer) ||
+    !element.contains(range.endContainer)
+  ) {
+    return null;
+  }
+  return {
+    start: getTextOffset(element, range.startContainer, range.startOffset),
+    end: getTextOffset(element, range.endContainer, range.endOffset),
+  };
+}
+
+function resolveTextPosition(element: HTMLElement, offset: number) {
+  const ownerDocument = element.ownerDocument ?? document;
+  const walker = ownerDocument.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let lastText: Text | null = null;
+  while (walker.nextNode()) {
+    const text = walker.currentNode as Text;
+    if (remaining <= text.length) {
+      return { node: text as Node, offset: remaining };
+    }
+    remaining -= text.length;
+    lastText = text;
+  }
+  if (lastText) {
+    return { node: lastText as Node, offset: lastText.length };
+  }
+  return { node: element as Node, offset: element.childNodes.length };
+}
+
+/**
+ * Runs a DOM mutation while keeping the caret, selection and scroll position
+ * anchored to the same text, even when text before them changed.
+ */
+function preserveViewport(element: HTMLDivElement, mutate: () => void) {
+  const ownerDocument = element.ownerDocument ?? document;
+  const scrollingElement = ownerDocument.scrollingElement;
+  const elementScrollTop = element.scrollTop;
+  const documentScrollTop = scrollingElement?.scrollTop ?? 0;
+  const textBefore = element.textContent ?? "";
+  const selectionOffsets = captureSelectionOffsets(element);
+
+  mutate();
+
+  element.scrollTop = elementScrollTop;
+  if (scrollingElement) {
+    scrollingElement.scrollTop = documentScrollTop;
+  }
+
+  if (!selectionOffsets) {
+    return;
+  }
+  const textAfter = element.textContent ?? "";
+  const start = resolveTextPosition(
+    element,
+    mapTextOffset(textBefore, textAfter, selectionOffsets.start)
+  );
+  const end =
+    selectionOffsets.end === selectionOffsets.start
+      ? start
+      : resolveTextPosition(
+          element,
+          mapTextOffset(textBefore, textAfter, selectionOffsets.end)
+        );
+  const range = ownerDocument.createRange();
+  range.setStart(start.node, start.offset);
+  range.setEnd(end.node, end.offset);
+  const selection = ownerDocument.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+}
+
+/**
+ * Replaces only the top-level blocks that differ, so untouched lines keep
+ * their DOM nodes (and any caret inside them).
+ */
+function patchNoteChildren(element: HTMLDivElement, markup: string) {
+  const ownerDocument = element.ownerDocument ?? document;
+  const template = ownerDocument.createElement("template");
+  template.innerHTML = markup;
+
+  const serialize = (node: Node) =>
+    node instanceof Element
+      ? stripImageSources(node.outerHTML)
+      : `${node.nodeType}:${node.textContent ?? ""}`;
+  const serialized = new Map<Node, string>();
+  const currentNodes = Array.from(element.childNodes);
+  const nextNodes = Array.from(template.content.childNodes);
+  [...currentNodes, ...nextNodes].forEach((node) => {
+    serialized.set(node, serialize(node));
+  });
+
+  const operations = diffSequences<ChildNode>(
+    currentNodes,
+    nextNodes,
+    (left, right) => serialized.get(left) === serialized.get(right)
+  );
+
+  let reference: ChildNode | null = element.firstChild;
+  for (const operation of operations) {
+    if (operation.type === "equal") {
+      reference = operation.value.nextSibling;
+    } else if (operation.type === "delete") {
+      reference = operation.value.nextSibling;
+      operation.value.remove();
+    } else {
+      element.insertBefore(operation.value, reference);
+    }
+  }
+}
+
 function debounce<T extends (...args: any[]) => void>(
   fn: T,
   delayMs: number
@@ -454,24 +594,127 @@ export function moveNoteToDocument(
   targetBody.appendChild(adoptedElement);
 }
 
+/**
+ * Where the latest edit stands: waiting for the debounce, being written,
+ * stored, or lost because the write failed.
+ */
+export type SaveState = "dirty" | "saving" | "saved" | "error";
+
 export type NoteSync = {
+  readonly slug: string;
+  readonly saveState: SaveState;
+  onSaveStateChange(listener: (state: SaveState) => void): () => void;
+  /** The note is private and needs its passphrase in this tab. */
+  readonly locked: boolean;
+  readonly encrypted: boolean;
+  /** Also called when the note becomes private or public. */
+  onLockChange(listener: (locked: boolean) => void): () => void;
+  /** Reads the stored note into the editor, unless it is locked. */
+  load(): Promise<void>;
+  lock(): void;
+  /** Resolves with false when the passphrase is wrong. */
+  unlock(passphrase: string): Promise<boolean>;
+  /** Encrypts the note under a passphrase; false when it wasn't saved. */
+  protect(passphrase: string): Promise<boolean>;
+  unprotect(): Promise<boolean>;
   apply(value: string): string;
   queue(value: string): void;
   commit(value: string, options?: { broadcast?: boolean }): string;
   clear(options?: { broadcast?: boolean }): void;
   refreshFromStorage(): Promise<string>;
+  acceptRemoteRevision(message: NoteUpdateMessage): boolean;
+  merge(value: string): string;
+  /**
+   * Saves edits still waiting for the debounce right away. Resolves once
+   * the last write, which may still be encrypting, has reached storage.
+   */
+  flush(): Promise<void>;
+  /** Keeps editing the same content under another key after a rename. */
+  retarget(slug: string): void;
+  /**
+   * Keeps edits and remote merges out of storage until the returned release
+   * is called, which saves what was held back.
+   */
+  holdSaves(): () => void;
 };
 
 function createNoteSynchronizer(
   element: HTMLDivElement,
   channel: BroadcastChannel,
-  storageKey = getStorageKey()
+  initialStorageKey = getStorageKey()
 ): NoteSync {
   const ownerDocument = element.ownerDocument ?? document;
-  const slug = getSlugFromStorageKey(storageKey);
+  let storageKey = initialStorageKey;
+  let slug = getSlugFromStorageKey(storageKey);
 
   let lastKnownDomValue = normalizeNoteElement(element);
   let lastPersistedValue: string | null = null;
+  // When `lastPersistedValue` was saved, if known.
+  let lastPersistedAt: number | null = null;
+  // What storage held while a load applies it, for the note's history.
+  let loadedValue: string | null = null;
+  let lastRevision: RevisionStamp | null = null;
+  let saveState: SaveState = "saved";
+  let writeSequence = 0;
+  let lastWrite: Promise<unknown> = Promise.resolve();
+  let saveHolds = 0;
+  const saveStateListeners = new Set<(state: SaveState) => void>();
+
+  const setSaveState = (next: SaveState) => {
+    if (next === saveState) {
+      return;
+    }
+    saveState = next;
+    saveStateListeners.forEach((listener) => {
+      try {
+        listener(next);
+      } catch (error) {
+        console.error("Save state listener failed", error);
+      }
+    });
+  };
+
+  const onSaveStateChange = (listener: (state: SaveState) => void) => {
+    saveStateListeners.add(listener);
+    return () => {
+      saveStateListeners.delete(listener);
+    };
+  };
+
+  const lockListeners = new Set<(locked: boolean) => void>();
+
+  const notifyLockChange = () => {
+    const locked = isNoteLocked(storageKey);
+    lockListeners.forEach((listener) => {
+      try {
+        listener(locked);
+      } catch (error) {
+        console.error("Lock listener failed", error);
+      }
+    });
+  };
+
+  const onLockChange = (listener: (locked: boolean) => void) => {
+    lockListeners.add(listener);
+    return () => {
+      lockListeners.delete(listener);
+    };
+  };
+
+  const broadcast = (value: string) => {
+    const message = createNoteUpdateMessage(slug, value);
+    lastRevision = { revision: message.revision, origin: message.origin };
+    channel.postMessage(message);
+  };
+
+  const acceptRemoteRevision = (message: NoteUpdateMessage) => {
+    observeRevision(message.revision);
+    if (!isNewerRevision(message, lastRevision)) {
+      return false;
+    }
+    lastRevision = { revision: message.revision, origin: message.origin };
+    return true;
+  };
 
   const scheduleDocumentTitleUpdate: ScheduleTitleUpdate = (() => {
     const run = () => {
@@ -528,12 +771,79 @@ function createNoteSynchronizer(
     return schedule;
   })();
 
+  /** Updates the library, history and indexes after a save. */
+  const recordNote = (normalized: string, previous?: PreviousNoteContent) => {
+    if (isNoteEncrypted(storageKey)) {
+      // Nothing readable about a private note is kept outside of it.
+      void saveNoteMetadata({
+        slug,
+        title: "",
+        updatedAt: Date.now(),
+        tags: [],
+        encrypted: true,
+      });
+      return;
+    }
+    const title = deriveTitleFromMarkup(normalized);
+    const tags = extractHashtags(extractSearchableText(normalized));
+    void saveNoteMetadata({
+      slug,
+      title,
+      updatedAt: Date.now(),
+      tags,
+      encrypted: false,
+    });
+    void recordNoteSnapshot(slug, normalized, previous);
+    void indexNoteContent(slug, normalized);
+    void indexNoteLinks(slug, normalized);
+  };
+
+  /**
+   * Trashes a note the editor was emptied of and offers to undo it. The undo
+   * writes over anything typed since, so the note comes back in place
+   * instead of as a `slug-2` copy.
+   */
+  const trashEmptiedNote = () => {
+    const trashedSlug = slug;
+    void moveNoteToTrash(trashedSlug).then((trashed) => {
+      if (!trashed) {
+        return;
+      }
+      showTrashUndoToast(
+        trashed,
+        (restoredSlug) => {
+          if (restoredSlug !== slug) {
+            window.location.assign(getNoteLocation(restoredSlug));
+            return;
+          }
+          void load().then(() => {
+            if (lastPersistedValue !== null) {
+              broadcast(lastPersistedValue);
+            }
+          });
+        },
+        {
+          replace: true,
+          // A pending save of the new text must not land after the restore.
+          beforeRestore: () => persistContent.cancel(),
+          // The note may be in the mini window.
+          ownerDocument: element.ownerDocument,
+        }
+      );
+    });
+  };
+
   const persistImmediately = (
     value: string,
     options: { broadcast?: boolean } = {}
   ): string => {
     const sanitized = sanitizeHtml(value);
     const normalized = normalizeMarkup(sanitized, ownerDocument);
+    if (saveHolds > 0) {
+      // Saved by `flush` once the hold is released.
+      setSaveState("dirty");
+      return normalized;
+    }
     const summaryElement = ownerDocument.createElement("div");
     summaryElement.innerHTML = normalized;
     const summaryText = summaryElement.textContent
@@ -544,23 +854,47 @@ function createNoteSynchronizer(
       summaryElement.querySelector(NON_TEXT_CONTENT_SELECTOR) !== null;
     const isEffectivelyEmpty = !hasContent && !hasNonTextContent;
     if (isEffectivelyEmpty) {
+      const wasStored = Boolean(lastPersistedValue);
       lastPersistedValue = "";
-      void removeStoredValue(storageKey);
-      void deleteNoteMetadata(slug);
+      // The tab that emptied the note trashes it; the others only mirror it.
       if (options.broadcast !== false) {
-        channel.postMessage("");
+        if (wasStored) {
+          trashEmptiedNote();
+        }
+        broadcast("");
       }
+      setSaveState("saved");
       return "";
     }
     if (normalized === lastPersistedValue) {
+      if (saveState === "dirty") {
+        setSaveState("saved");
+      }
       return normalized;
     }
+    const previousPersistedValue = lastPersistedValue;
+    const previousContent = previousPersistedValue ?? loadedValue;
+    const previous = previousContent
+      ? { content: previousContent, savedAt: lastPersistedAt ?? Date.now() }
+      : undefined;
     lastPersistedValue = normalized;
-    const title = deriveTitleFromMarkup(normalized);
-    void saveNoteMetadata({ slug, title, updatedAt: Date.now() });
-    void writeStoredValue(storageKey, normalized);
+    lastPersistedAt = Date.now();
+    const writeId = ++writeSequence;
+    setSaveState("saving");
+    lastWrite = writeStoredValue(storageKey, normalized).then((saved) => {
+      // Forget the failed write so the next save or a retry tries again.
+      if (!saved && lastPersistedValue === normalized) {
+        lastPersistedValue = previousPersistedValue ?? "";
+      }
+      if (!saved) {
+        setSaveState("error");
+      } else if (writeId === writeSequence && saveState === "saving") {
+        setSaveState("saved");
+      }
+    });
+    recordNote(normalized, previous);
     if (options.broadcast !== false) {
-      channel.postMessage(normalized);
+      broadcast(normalized);
     }
     return normalized;
   };
@@ -569,11 +903,15 @@ function createNoteSynchronizer(
     persistImmediately(value);
   }, DEBOUNCE_DELAY_MS);
 
-  const apply = (value: string) => {
-    const sanitized = sanitizeHtml(value);
-    if (element.innerHTML !== sanitized) {
-      element.innerHTML = sanitized;
+  const replaceContent = (markup: string) => {
+    if (stripImageSources(element.innerHTML) !== markup) {
+      preserveViewport(element, () => patchNoteChildren(element, markup));
+      void hydrateNoteImages(element);
     }
+  };
+
+  const apply = (value: string) => {
+    replaceContent(sanitizeHtml(value));
     const normalized = normalizeNoteElement(element);
     lastKnownDomValue = normalized;
     persistImmediately(normalized, { broadcast: false });
@@ -583,10 +921,7 @@ function createNoteSynchronizer(
 
   const commit = (value: string, options: { broadcast?: boolean } = {}) => {
     persistContent.cancel();
-    const sanitized = sanitizeHtml(value);
-    if (element.innerHTML !== sanitized) {
-      element.innerHTML = sanitized;
-    }
+    replaceContent(sanitizeHtml(value));
     const normalized = normalizeNoteElement(element);
     lastKnownDomValue = normalized;
     const persisted = persistImmediately(normalized, options);
@@ -594,6 +929,36 @@ function createNoteSynchronizer(
     return persisted;
   };
 
+  const toMergeValue = (markup: string) => {
+    return markup === EMPTY_NOTE_MARKUP ? "" : markup;
+  };
+
+  /**
+   * Folds a remote revision into the editor without dropping local edits
+   * that have not been saved yet. When the merge contains keystrokes the
+   * sender has not seen, the result is broadcast back so both sides settle
+   * on the same content.
+   */
+  const merge = (value: string) => {
+    persistContent.cancel();
+    const remote = toMergeValue(
+      normalizeMarkup(sanitizeHtml(value), ownerDocument)
+    );
+    const local = toMergeValue(normalizeNoteElement(element));
+    const base = lastPersistedValue ?? local;
+    const merged = mergeMarkup(base, local, remote) ?? remote;
+
+    replaceContent(merged);
+    const normalized = normalizeNoteElement(element);
+    lastKnownDomValue = normalized;
+    const persisted = persistImmediately(normalized, { broadcast: false });
+    if (persisted !== remote) {
+      broadcast(persisted);
+    }
+    scheduleDocumentTitleUpdate.flush();
+    return persisted;
+  };
+
   const queue = (value: string) => {
     if (value === lastKnownDomValue) {
       return;
@@ -601,6 +966,7 @@ function createNoteSynchronizer(
     lastKnownDomValue = value;
     scheduleDocumentTitleUpdate();
     persistContent(value);
+    setSaveState("dirty");
   };
 
   const clear = (options: { broadcast?: boolean } = {}) => {
@@ -608,18 +974,160 @@ function createNoteSynchronizer(
     element.innerHTML = "";
     const normalizedEmpty = normalizeNoteElement(element);
     lastKnownDomValue = normalizedEmpty;
+    const wasStored = Boolean(lastPersistedValue);
     lastPersistedValue = "";
-    void deleteNoteMetadata(slug);
-    void removeStoredValue(storageKey);
     if (options.broadcast !== false) {
-      channel.postMessage("");
+      if (wasStored) {
+        trashEmptiedNote();
+      }
+      broadcast("");
+    }
+    setSaveState("saved");
+    scheduleDocumentTitleUpdate.flush();
+  };
+
+  const flush = async () => {
+    // Nothing was loaded yet, so an empty editor must not overwrite the note.
+    if (lastPersistedValue !== null) {
+      persistContent.cancel();
+      if (toMergeValue(lastKnownDomValue) !== lastPersistedValue) {
+        persistImmediately(lastKnownDomValue);
+      } else if (saveState === "dirty") {
+        setSaveState("saved");
+      }
     }
+    await lastWrite;
+  };
+
+  const retarget = (nextSlug: string) => {
+    persistContent.cancel();
+    const nextStorageKey = getNoteStorageKey(nextSlug);
+    moveStoredValueKey(storageKey, nextStorageKey);
+    slug = nextSlug;
+    storageKey = nextStorageKey;
+    lastRevision = null;
+    flush();
+  };
+
+  const holdSaves = () => {
+    persistContent.cancel();
+    saveHolds += 1;
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      saveHolds -= 1;
+      if (saveHolds === 0) {
+        flush();
+      }
+    };
+  };
+
+  // Empties the editor without saving, so a locked note stays as stored.
+  const unloadContent = () => {
+    persistContent.cancel();
+    lastPersistedValue = null;
+    element.innerHTML = "";
+    lastKnownDomValue = normalizeNoteElement(element);
     scheduleDocumentTitleUpdate.flush();
   };
 
+  const load = async () => {
+    persistContent.cancel();
+    const [storedValue, metadataMap] = await Promise.all([
+      readStoredValue(storageKey),
+      loadNoteMetadataMap(),
+    ]);
+    if (isNoteLocked(storageKey)) {
+      unloadContent();
+    } else {
+      loadedValue = storedValue;
+      lastPersistedAt = metadataMap[slug]?.updatedAt || null;
+      apply(storedValue);
+      loadedValue = null;
+    }
+    notifyLockChange();
+  };
+
+  const lock = () => {
+    if (!isNoteEncrypted(storageKey) || isNoteLocked(storageKey)) {
+      return;
+    }
+    // The write picks up the key before it is forgotten.
+    flush();
+    lockStoredValue(storageKey);
+    unloadContent();
+    notifyLockChange();
+  };
+
+  const unlock = async (passphrase: string) => {
+    const content = await unlockStoredValue(storageKey, passphrase);
+    if (content === null) {
+      return false;
+    }
+    apply(content);
+    notifyLockChange();
+    return true;
+  };
+
+  const announcePrivacy = () => {
+    channel.postMessage(createNotePrivacyMessage(slug));
+    notifyLockChange();
+  };
+
+  const protect = async (passphrase: string) => {
+    flush();
+    const content = lastPersistedValue;
+    if (!content || isNoteEncrypted(storageKey)) {
+      return false;
+    }
+    if (!(await protectStoredValue(storageKey, passphrase, content))) {
+      return false;
+    }
+    // Edits made while the key was derived were saved as plain text.
+    if (lastPersistedValue && lastPersistedValue !== content) {
+      void writeStoredValue(storageKey, lastPersistedValue);
+    }
+    void deleteNoteHistory(slug);
+    void removeNoteFromIndex(slug);
+    void removeNoteLinks(slug);
+    recordNote(lastPersistedValue ?? content);
+    announcePrivacy();
+    return true;
+  };
+
+  const unprotect = async () => {
+    flush();
+    const content = lastPersistedValue;
+    if (content === null || isNoteLocked(storageKey)) {
+      return false;
+    }
+    if (!(await unprotectStoredValue(storageKey, content))) {
+      return false;
+    }
+    recordNote(content);
+    announcePrivacy();
+    return true;
+  };
+
   const refreshFromStorage = async (): Promise<string> => {
     try {
       const storedValue = await readStoredValue(storageKey);
+      if (isNoteLocked(storageKey)) {
+        if (lastPersistedValue !== null) {
+          unloadContent();
+          notifyLockChange();
+        }
+        return lastKnownDomValue;
+      }
+      if (lastPersistedValue === null) {
+        // Made public in another tab while this one was locked.
+        const applied = apply(storedValue);
+        notifyLockChange();
+        return applied;
+      }
 
       if (storedValue === lastKnownDomValue) {
         return lastKnownDomValue;
@@ -636,7 +1144,37 @@ function createNoteSynchronizer(
     }
   };
 
-  return { apply, queue, commit, clear, refreshFromStorage };
+  return {
+    get slug() {
+      return slug;
+    },
+    get saveState() {
+      return saveState;
+    },
+    onSaveStateChange,
+    get locked() {
+      return isNoteLocked(storageKey);
+    },
+    get encrypted() {
+      return isNoteEncrypted(storageKey);
+    },
+    onLockChange,
+    load,
+    lock,
+    unlock,
+    protect,
+    unprotect,
+    apply,
+    queue,
+    commit,
+    clear,
+    refreshFromStorage,
+    acceptRemoteRevision,
+    merge,
+    flush,
+    retarget,
+    holdSaves,
+  };
 }
 
 export function initializeNoteContent(
@@ -647,11 +1185,12 @@ export function initializeNoteContent(
   const storageKey = getStorageKey();
   const sync = createNoteSynchronizer(element, channel, storageKey);
 
-  void readStoredValue(storageKey).then((savedValue) => {
-    sync.apply(savedValue);
-  });
+  void sync.load();
 
   element.addEventListener("paste", (event: ClipboardEvent) => {
+    if (tryHandleImagePaste(element, event)) {
+      return;
+    }
     if (tryHandleHtmlPaste(element, event)) {
       element.dispatchEvent(new Event("input", { bubbles: true }));
       return;
@@ -661,20 +1200,53 @@ export function initializeNoteContent(
     }
   });
 
-  element.addEventListener("input", () => {
+  const inputRules = createInputRules(element);
+  element.addEventListener("input", (event) => {
+    inputRules.apply(event as InputEvent);
     const normalizedHtml = normalizeNoteElement(element);
     sync.queue(normalizedHtml);
   });
 
+  let isComposing = false;
+  let pendingRemoteValue: string | null = null;
+
+  element.addEventListener("compositionstart", () => {
+    isComposing = true;
+  });
+
+  element.addEventListener("compositionend", () => {
+    isComposing = false;
+    if (pendingRemoteValue !== null) {
+      const value = pendingRemoteValue;
+      pendingRemoteValue = null;
+      sync.merge(value);
+    }
+  });
+
   channel.addEventListener("message", (event) => {
-    const value =
-      typeof event.data === "string" ? event.data : event.data?.value;
-    if (typeof value !== "string") return;
+    const message = parseSyncMessage(event.data);
+    if (!message || message.origin === TAB_ID) return;
+    if (message.type === "note-rename") {
+      if (message.from === sync.slug) {
+        sync.retarget(message.to);
+        window.history.replaceState(null, "", getNoteLocation(message.to));
+      }
+      return;
+    }
+    if (message.slug !== sync.slug) return;
+    if (message.type === "note-privacy") {
+      void sync.load();
+      return;
+    }
+    // A locked tab has nothing to merge into.
+    if (sync.locked) return;
+    if (!sync.acceptRemoteRevision(message)) return;
 
-    const activeElement = element.ownerDocument?.activeElement;
-    if (activeElement !== element) {
-      sync.apply(value);
+    if (isComposing) {
+      pendingRemoteValue = message.value;
+      return;
     }
+    sync.merge(message.value);
   });
 
   const isNoteInPrimaryDocument = () => {
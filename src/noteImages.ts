@@ -0,0 +1,148 @@
+import { placeCaret } from "./editorBlocks.ts";
+import { showToast } from "./toast.ts";
+import {
+  IMAGE_ID_ATTRIBUTE,
+  collectUnusedImages,
+  loadImageUrl,
+  storeImage,
+} from "./utils/imageStore.ts";
+
+const IMAGE_SELECTOR = `img[${IMAGE_ID_ATTRIBUTE}]`;
+// Leave startup to the note itself before scanning every stored note.
+const COLLECTION_DELAY_MS = 15000;
+
+const getImageFiles = (dataTransfer: DataTransfer | null) => {
+  return Array.from(dataTransfer?.files ?? []).filter((file) =>
+    file.type.startsWith("image/")
+  );
+};
+
+const isInsideNote = (noteElement: HTMLDivElement, range: Range) => {
+  const container = range.commonAncestorContainer;
+  return container === noteElement || noteElement.contains(container);
+};
+
+const getNoteEndRange = (noteElement: HTMLDivElement) => {
+  const range = (noteElement.ownerDocument ?? document).createRange();
+  range.selectNodeContents(noteElement.lastElementChild ?? noteElement);
+  range.collapse(false);
+  return range;
+};
+
+const getSelectionRange = (noteElement: HTMLDivElement) => {
+  const selection = noteElement.ownerDocument?.getSelection();
+  if (selection && selection.rangeCount > 0) {
+    const range = selection.getRangeAt(0);
+    if (isInsideNote(noteElement, range)) {
+      return range.cloneRange();
+    }
+  }
+  return getNoteEndRange(noteElement);
+};
+
+const getDropRange = (noteElement: HTMLDivElement, event: DragEvent) => {
+  const ownerDocument = noteElement.ownerDocument ?? document;
+  const range = ownerDocument.caretRangeFromPoint?.(
+    event.clientX,
+    event.clientY
+  );
+  return range && isInsideNote(noteElement, range)
+    ? range
+    : getNoteEndRange(noteElement);
+};
+
+/** Points stored images at their object URLs. */
+export async function hydrateNoteImages(root: ParentNode): Promise<void> {
+  const images = Array.from(
+    root.querySelectorAll<HTMLImageElement>(IMAGE_SELECTOR)
+  ).filter((image) => !image.getAttribute("src"));
+  await Promise.all(
+    images.map(async (image) => {
+      const id = image.getAttribute(IMAGE_ID_ATTRIBUTE);
+      const url = id ? await loadImageUrl(id) : null;
+      if (url) {
+        image.src = url;
+      }
+    })
+  );
+}
+
+async function insertImages(
+  noteElement: HTMLDivElement,
+  files: File[],
+  range: Range
+): Promise<void> {
+  const ownerDocument = noteElement.ownerDocument ?? document;
+  const fragment = ownerDocument.createDocumentFragment();
+  let lastImage: HTMLImageElement | null = null;
+  for (const file of files) {
+    const id = await storeImage(file);
+    const url = id ? await loadImageUrl(id) : null;
+    if (!id || !url) {
+      continue;
+    }
+    const image = ownerDocument.createElement("img");
+    image.setAttribute(IMAGE_ID_ATTRIBUTE, id);
+    image.alt = "";
+    image.src = url;
+    fragment.appendChild(image);
+    lastImage = image;
+  }
+
+  if (!lastImage) {
+    showToast({ message: "We couldn't save that image. Please try again." });
+    return;
+  }
+
+  const caretTarget = lastImage;
+  range.deleteContents();
+  range.insertNode(fragment);
+  placeCaret(ownerDocument, (caretRange) =>
+    caretRange.setStartAfter(caretTarget)
+  );
+  noteElement.dispatchEvent(new Event("input", { bubbles: true }));
+}
+
+/**
+ * Stores pasted image files instead of letting the browser inline them.
+ * Clipboards that also carry text, like a copied document, are left to the
+ * HTML paste.
+ */
+export function tryHandleImagePaste(
+  noteElement: HTMLDivElement,
+  event: ClipboardEvent
+): boolean {
+  const files = getImageFiles(event.clipboardData);
+  if (!files.length || event.clipboardData?.getData("text/plain").trim()) {
+    return false;
+  }
+  event.preventDefault();
+  void insertImages(noteElement, files, getSelectionRange(noteElement));
+  return true;
+}
+
+/**
+ * Accepts images dropped onto the note and clears out stored images that
+ * no note refers to any more, shortly after startup.
+ */
+export function setupNoteImages(noteElement: HTMLDivElement): void {
+  noteElement.addEventListener("dragover", (event) => {
+    if (event.dataTransfer?.types.includes("Files")) {
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "copy";
+    }
+  });
+
+  noteElement.addEventListener("drop", (event) => {
+    const files = getImageFiles(event.dataTransfer);
+    if (!files.length) {
+      return;
+    }
+    event.preventDefault();
+    void insertImages(noteElement, files, getDropRange(noteElement, event));
+  });
+
+  window.setTimeout(() => {
+    void collectUnusedImages();
+  }, COLLECTION_DELAY_MS);
+}
@@ -0,0 +1,303 @@
+import { createBottomSheet } from "@plainsheet/core";
+import type { NoteSync } from "./note.ts";
+import { closePiPWindow, isPiPWindowOpen } from "./pip.ts";
+import { registerCommand } from "./shortcuts.ts";
+import { showToast } from "./toast.ts";
+import { isEncryptionSupported } from "./utils/noteCrypto.ts";
+
+type NoteLockOptions = {
+  noteElement: HTMLDivElement;
+  noteSync: NoteSync;
+};
+
+const LOCK_SCREEN_TEMPLATE = `
+  <form class="note-lock__form" data-note-lock="form">
+    <h1 class="note-lock__title">This note is private</h1>
+    <p class="note-lock__hint">Enter its passphrase to open it.</p>
+    <input type="password" class="note-lock__input" autocomplete="current-password" aria-label="Passphrase" data-note-lock="passphrase" />
+    <p class="note-lock__error" data-note-lock="error" role="alert" hidden></p>
+    <button type="submit" class="note-lock__button" data-note-lock="submit">Unlock</button>
+  </form>
+`;
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Make note private">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Make note private</h2>
+      <button type="button" class="note-sheet__close" data-note-privacy="close" aria-label="Close make note private"></button>
+    </header>
+    <p class="note-sheet__intro">The note is encrypted on this device and locks after five minutes without activity. Its title is hidden in your library, and it is left out of search, history and backlinks. Pictures in it are not encrypted.</p>
+    <form class="note-sheet__form" data-note-privacy="form">
+      <label class="note-sheet__label">
+        <span>Passphrase</span>
+        <input type="password" autocomplete="new-password" data-note-privacy="passphrase" />
+      </label>
+      <label class="note-sheet__label">
+        <span>Repeat passphrase</span>
+        <input type="password" autocomplete="new-password" data-note-privacy="confirm" />
+        <span class="note-sheet__hint">A forgotten passphrase can't be recovered.</span>
+      </label>
+      <p class="note-sheet__warning" data-note-privacy="warning" hidden></p>
+      <div class="note-sheet__actions">
+        <button type="button" class="note-sheet__button" data-note-privacy="cancel">Cancel</button>
+        <button type="submit" class="note-sheet__button note-sheet__button--primary" data-note-privacy="submit">Encrypt note</button>
+      </div>
+    </form>
+  </section>
+`;
+
+const AUTO_LOCK_DELAY_MS = 5 * 60 * 1000;
+const MIN_PASSPHRASE_LENGTH = 8;
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "input"];
+
+function focusElement(element: HTMLElement) {
+  try {
+    element.focus({ preventScroll: true });
+  } catch {
+    /* focus can fail if element is in a background document */
+  }
+}
+
+function setupProtectSheet({ noteElement, noteSync }: NoteLockOptions) {
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Make note private",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Private note sheet content wrapper not found.");
+    return null;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-note-privacy='${name}']`);
+
+  const form = query<HTMLFormElement>("form");
+  const passphraseInput = query<HTMLInputElement>("passphrase");
+  const confirmInput = query<HTMLInputElement>("confirm");
+  const warning = query<HTMLElement>("warning");
+  const submitButton = query<HTMLButtonElement>("submit");
+  if (!form || !passphraseInput || !confirmInput || !submitButton) {
+    console.warn("Private note sheet form elements are missing.");
+    return null;
+  }
+
+  const hideWarning = () => {
+    if (!warning) return;
+    warning.hidden = true;
+    warning.textContent = "";
+  };
+
+  const showWarning = (message: string) => {
+    if (!warning) return;
+    warning.textContent = message;
+    warning.hidden = false;
+  };
+
+  const close = () => {
+    passphraseInput.value = "";
+    confirmInput.value = "";
+    bottomSheet.close();
+  };
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    hideWarning();
+    const passphrase = passphraseInput.value;
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      showWarning(
+        `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`
+      );
+      return;
+    }
+    if (passphrase !== confirmInput.value) {
+      showWarning("The passphrases don't match.");
+      return;
+    }
+
+    submitButton.disabled = true;
+    const protectedNote = await noteSync.protect(passphrase);
+    submitButton.disabled = false;
+    if (!protectedNote) {
+      showWarning(
+        "We couldn't encrypt this note. Make sure it isn't empty and try again."
+      );
+      return;
+    }
+    close();
+    showToast({ message: "This note is now private." });
+    focusElement(noteElement);
+  });
+
+  query<HTMLButtonElement>("close")?.addEventListener("click", close);
+  query<HTMLButtonElement>("cancel")?.addEventListener("click", close);
+
+  const open = () => {
+    hideWarning();
+    bottomSheet.open();
+    window.setTimeout(() => {
+      passphraseInput.focus({ preventScroll: true });
+    }, 120);
+  };
+
+  return { open };
+}
+
+/**
+ * Puts a passphrase prompt in place of the editor while the open note is
+ * locked, and locks unlocked private notes again after a while without
+ * activity. Commands make a note private, lock it, or make it public again.
+ */
+export function setupNoteLock({ noteElement, noteSync }: NoteLockOptions) {
+  const lockScreen = document.createElement("section");
+  lockScreen.className = "note-lock";
+  lockScreen.setAttribute("aria-label", "Private note");
+  lockScreen.hidden = true;
+  lockScreen.innerHTML = LOCK_SCREEN_TEMPLATE;
+  noteElement.before(lockScreen);
+
+  const query = <T extends HTMLElement>(name: string) =>
+    lockScreen.querySelector<T>(`[data-note-lock='${name}']`);
+
+  const form = query<HTMLFormElement>("form");
+  const passphraseInput = query<HTMLInputElement>("passphrase");
+  const error = query<HTMLElement>("error");
+  const submitButton = query<HTMLButtonElement>("submit");
+  if (!form || !passphraseInput || !submitButton) {
+    console.warn("Lock screen elements are missing.");
+    return false;
+  }
+
+  const hideError = () => {
+    if (!error) return;
+    error.hidden = true;
+    error.textContent = "";
+  };
+
+  const showError = (message: string) => {
+    if (!error) return;
+    error.textContent = message;
+    error.hidden = false;
+  };
+
+  let lastActivityAt = Date.now();
+  let autoLockTimeoutId: number | undefined;
+
+  const markActivity = () => {
+    lastActivityAt = Date.now();
+  };
+
+  // Checks the idle time when it fires instead of restarting on each key.
+  const scheduleAutoLock = (delay = AUTO_LOCK_DELAY_MS) => {
+    window.clearTimeout(autoLockTimeoutId);
+    autoLockTimeoutId = window.setTimeout(() => {
+      const idleFor = Date.now() - lastActivityAt;
+      if (idleFor < AUTO_LOCK_DELAY_MS) {
+        scheduleAutoLock(AUTO_LOCK_DELAY_MS - idleFor);
+        return;
+      }
+      noteSync.lock();
+    }, delay);
+  };
+
+  ACTIVITY_EVENTS.forEach((type) => {
+    window.addEventListener(type, markActivity, {
+      capture: true,
+      passive: true,
+    });
+    // Covers the mini window, whose events never reach this window.
+    noteElement.addEventListener(type, markActivity, { passive: true });
+  });
+
+  const render = (locked: boolean) => {
+    if (locked && isPiPWindowOpen()) {
+      closePiPWindow();
+    }
+    noteElement.hidden = locked;
+    lockScreen.hidden = !locked;
+
+    if (locked) {
+      window.clearTimeout(autoLockTimeoutId);
+      passphraseInput.value = "";
+      if (isEncryptionSupported()) {
+        hideError();
+      } else {
+        showError("Private notes can only be opened over a secure connection.");
+      }
+      focusElement(passphraseInput);
+      return;
+    }
+    if (noteSync.encrypted) {
+      markActivity();
+      scheduleAutoLock();
+    } else {
+      window.clearTimeout(autoLockTimeoutId);
+    }
+  };
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    const passphrase = passphraseInput.value;
+    if (!passphrase) {
+      return;
+    }
+    hideError();
+    submitButton.disabled = true;
+    const unlocked = await noteSync.unlock(passphrase);
+    submitButton.disabled = false;
+    if (!unlocked) {
+      showError("That passphrase doesn't open this note.");
+      passphraseInput.select();
+      return;
+    }
+    passphraseInput.value = "";
+    focusElement(noteElement);
+  });
+
+  noteSync.onLockChange(render);
+  render(noteSync.locked);
+
+  const protectSheet = setupProtectSheet({ noteElement, noteSync });
+
+  registerCommand({
+    id: "protect-note",
+    label: "Make note private",
+    keywords: ["encrypt", "password", "passphrase", "lock"],
+    needsPage: true,
+    isAvailable: () =>
+      Boolean(protectSheet) && isEncryptionSupported() && !noteSync.encrypted,
+    run: () => protectSheet?.open(),
+  });
+  registerCommand({
+    id: "lock-note",
+    label: "Lock private note",
+    keywords: ["encrypt", "hide"],
+    defaultBinding: "Mod+Alt+L",
+    isAvailable: () => noteSync.encrypted && !noteSync.locked,
+    run: () => noteSync.lock(),
+  });
+  registerCommand({
+    id: "unprotect-note",
+    label: "Remove note passphrase",
+    keywords: ["decrypt", "public", "unlock"],
+    isAvailable: () => noteSync.encrypted && !noteSync.locked,
+    run: async () => {
+      const removed = await noteSync.unprotect();
+      showToast({
+        message: removed
+          ? "The passphrase was removed from this note."
+          : "We couldn't remove the passphrase. Please try again.",
+      });
+    },
+  });
+
+  return true;
+}
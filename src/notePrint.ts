@@ -0,0 +1,57 @@
+import type { NoteSync } from "./note.ts";
+import { registerCommand } from "./shortcuts.ts";
+
+type NotePrintOptions = {
+  noteElement: HTMLDivElement;
+  noteSync: NoteSync;
+};
+
+const MAX_HEADER_LENGTH = 80;
+
+const toCssString = (text: string) => {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+};
+
+const getNoteTitle = (noteElement: HTMLDivElement) => {
+  const firstLine = noteElement.firstElementChild?.textContent ?? "";
+  const title = firstLine
+    .replace(/\u200b/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return (title || document.title).slice(0, MAX_HEADER_LENGTH);
+};
+
+/**
+ * Prints the note through the print stylesheet, which also covers the
+ * browser's own print menu. The note's title is added as a running page
+ * header while printing, next to the page numbers from the stylesheet.
+ */
+export function setupNotePrint({ noteElement, noteSync }: NotePrintOptions) {
+  let headerStyle: HTMLStyleElement | null = null;
+
+  window.addEventListener("beforeprint", () => {
+    headerStyle?.remove();
+    headerStyle = document.createElement("style");
+    headerStyle.textContent = `@page { @top-center { content: ${toCssString(
+      getNoteTitle(noteElement)
+    )}; font: 9pt system-ui, sans-serif; color: #666; } }`;
+    document.head.appendChild(headerStyle);
+  });
+
+  window.addEventListener("afterprint", () => {
+    headerStyle?.remove();
+    headerStyle = null;
+  });
+
+  registerCommand({
+    id: "print-note",
+    label: "Print or save as PDF",
+    keywords: ["pdf", "paper", "export", "download"],
+    needsPage: true,
+    isAvailable: () => !noteSync.locked,
+    run: () => {
+      noteSync.flush();
+      window.print();
+    },
+  });
+}
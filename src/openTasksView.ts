@@ -0,0 +1,160 @@
+import type { NoteSync } from "./note.ts";
+import { showToast } from "./toast.ts";
+import { getNoteUrl } from "./utils/noteUrl.ts";
+import { createNoteUpdateMessage } from "./utils/syncProtocol.ts";
+import {
+  completeStoredTask,
+  loadOpenTasks,
+  type NoteTasks,
+  type OpenTask,
+} from "./utils/tasks.ts";
+
+type OpenTasksViewOptions = {
+  noteSync: NoteSync;
+  channel: BroadcastChannel;
+};
+
+export type OpenTasksView = {
+  render(container: HTMLElement, filterTerm: string): Promise<void>;
+};
+
+const filterNotes = (notes: NoteTasks[], filterTerm: string) => {
+  if (!filterTerm) {
+    return notes;
+  }
+  return notes
+    .map((note) => {
+      if (note.title.toLowerCase().includes(filterTerm)) {
+        return note;
+      }
+      const tasks = note.tasks.filter((task) =>
+        task.text.toLowerCase().includes(filterTerm)
+      );
+      return { ...note, tasks };
+    })
+    .filter((note) => note.tasks.length > 0);
+};
+
+/**
+ * The library's "Open tasks" view: unchecked checklist items from every
+ * note, grouped by note, which can be ticked off without opening the note.
+ */
+export function createOpenTasksView({
+  noteSync,
+  channel,
+}: OpenTasksViewOptions): OpenTasksView {
+  let renderSequence = 0;
+
+  const completeTask = async (slug: string, task: OpenTask) => {
+    const isActiveNote = slug === noteSync.slug;
+    let releaseSaves: (() => void) | null = null;
+    try {
+      if (isActiveNote) {
+        // The stored note has to hold the latest edits before it is read,
+        // and none may be written between the read and the write.
+        const flushed = noteSync.flush();
+        releaseSaves = noteSync.holdSaves();
+        await flushed;
+      }
+      const updated = await completeStoredTask(slug, task);
+      if (updated === null) {
+        return false;
+      }
+      channel.postMessage(createNoteUpdateMessage(slug, updated));
+      if (isActiveNote) {
+        noteSync.merge(updated);
+      }
+      return true;
+    } finally {
+      releaseSaves?.();
+    }
+  };
+
+  const renderTask = (
+    note: NoteTasks,
+    task: OpenTask,
+    rerender: () => void
+  ) => {
+    const item = document.createElement("li");
+    item.className = "note-task";
+
+    const checkbox = document.createElement("button");
+    checkbox.type = "button";
+    checkbox.className = "note-task__check";
+    checkbox.setAttribute("role", "checkbox");
+    checkbox.setAttribute("aria-checked", "false");
+    checkbox.setAttribute("aria-label", `Complete “${task.text}”`);
+
+    const text = document.createElement("span");
+    text.className = "note-task__text";
+    text.textContent = task.text;
+
+    checkbox.addEventListener("click", async () => {
+      if (checkbox.disabled) {
+        return;
+      }
+      checkbox.disabled = true;
+      checkbox.setAttribute("aria-checked", "true");
+      item.classList.add("is-done");
+      const completed = await completeTask(note.slug, task);
+      if (!completed) {
+        showToast({
+          message: "This task changed in the note. The list was refreshed.",
+        });
+        rerender();
+      }
+    });
+
+    item.append(checkbox, text);
+    return item;
+  };
+
+  const render = async (container: HTMLElement, filterTerm: string) => {
+    const renderId = ++renderSequence;
+    container.innerHTML = '<div class="note-sheet-empty"><p>Loading…</p></div>';
+
+    const notes = await loadOpenTasks();
+    if (renderId !== renderSequence) {
+      return;
+    }
+    container.innerHTML = "";
+
+    if (!notes.length) {
+      const emptyState = document.createElement("div");
+      emptyState.className = "note-sheet-empty";
+      emptyState.innerHTML =
+        "<p>No open tasks.</p><p>Type /checklist in a note to start a to-do list.</p>";
+      container.appendChild(emptyState);
+      return;
+    }
+
+    const filtered = filterNotes(notes, filterTerm);
+    if (!filtered.length) {
+      const noResults = document.createElement("div");
+      noResults.className = "note-sheet-empty";
+      noResults.innerHTML = "<p>No open tasks match that search.</p>";
+      container.appendChild(noResults);
+      return;
+    }
+
+    const rerender = () => void render(container, filterTerm);
+    filtered.forEach((note) => {
+      const heading = document.createElement("h3");
+      heading.className = "note-sheet-group__title";
+      const link = document.createElement("a");
+      link.className = "note-task__note";
+      link.href = getNoteUrl(note.slug);
+      link.textContent = note.title;
+      heading.appendChild(link);
+
+      const list = document.createElement("ul");
+      list.className = "note-task-list";
+      note.tasks.forEach((task) => {
+        list.appendChild(renderTask(note, task, rerender));
+      });
+      container.append(heading, list);
+    });
+  };
+
+  return { render };
+}
@@ -4,6 +4,7 @@ import {
   restoreNote,
   showPlaceholder,
 } from "./note.ts";
+import { listenForShortcuts } from "./shortcuts.ts";
 
 type DocumentPictureInPictureOptions = {
   width?: number;
@@ -79,6 +80,10 @@ function setupPiPWindow(pipWindow: Window, context: NotePlacement) {
   showPlaceholder(context);
   moveNoteToDocument(context, doc);
 
+  listenForShortcuts(pipWindow, {
+    beforePageCommand: () => pipWindow.close(),
+  });
+
   pipWindow.requestAnimationFrame(() => {
     context.element.focus({ preventScroll: true });
   });
@@ -112,9 +117,25 @@ function attachPiPLifecycle(windowRef: Window, onClose: () => void) {
   windowRef.addEventListener("unload", teardown, { once: true });
 }
 
+type PiPWindowOptions = {
+  /** Runs while the note is still in the closing window. */
+  beforeClose?: () => void;
+};
+
 let pipWindow: Window | null = null;
 
-export async function openPiPWindow(context: NotePlacement): Promise<void> {
+export function isPiPWindowOpen(): boolean {
+  return pipWindow !== null && !pipWindow.closed;
+}
+
+export function closePiPWindow(): void {
+  pipWindow?.close();
+}
+
+export async function openPiPWindow(
+  context: NotePlacement,
+  { beforeClose }: PiPWindowOptions = {}
+): Promise<void> {
   if (pipWindow && !pipWindow.closed) {
     try {
       pipWindow.focus();
@@ -140,6 +161,7 @@ export async function openPiPWindow(context: NotePlacement): Promise<void> {
   }
 
   attachPiPLifecycle(targetWindow, () => {
+    beforeClose?.();
     restoreNote(context);
     pipWindow = null;
   });
@@ -0,0 +1,202 @@
+import { createBottomSheet } from "@plainsheet/core";
+import type { NoteSync } from "./note.ts";
+import { renameNote, type RewrittenNote } from "./utils/noteRename.ts";
+import { getNoteLocation } from "./utils/noteUrl.ts";
+import { isReservedSlug, slugify } from "./utils/slug.ts";
+import {
+  createNoteRenameMessage,
+  createNoteUpdateMessage,
+} from "./utils/syncProtocol.ts";
+
+type RenameSheetOptions = {
+  noteSync: NoteSync;
+  channel: BroadcastChannel;
+  beforeOpen?: () => void;
+};
+
+export type RenameSheet = {
+  open(slug: string, title: string): void;
+};
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Rename note">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Rename note</h2>
+      <button type="button" class="note-sheet__close" data-rename="close" aria-label="Close rename note"></button>
+    </header>
+    <p class="note-sheet__intro" data-rename="intro"></p>
+    <form class="note-sheet__form" data-rename="form">
+      <label class="note-sheet__label">
+        <span>New note key</span>
+        <input type="text" inputmode="text" autocapitalize="none" autocomplete="off" spellcheck="false" maxlength="64" data-rename="input" />
+        <span class="note-sheet__hint">Use lowercase letters, numbers, and dashes. Links in your other notes follow the new key.</span>
+      </label>
+      <p class="note-sheet__warning" data-rename="warning" hidden></p>
+      <div class="note-sheet__actions">
+        <button type="button" class="note-sheet__button" data-rename="cancel">Cancel</button>
+        <button type="submit" class="note-sheet__button note-sheet__button--primary" data-rename="submit">Rename</button>
+      </div>
+    </form>
+  </section>
+`;
+
+const formatLockedNotes = (slugs: string[]) => {
+  const quoted = slugs.map((slug) => `“${slug}”`);
+  const noun =
+    slugs.length === 1 ? "the locked private note" : "the locked private notes";
+  if (quoted.length === 1) {
+    return `${noun} ${quoted[0]}`;
+  }
+  return `${noun} ${quoted.slice(0, -1).join(", ")} and ${quoted[quoted.length - 1]}`;
+};
+
+export function setupRenameSheet({
+  noteSync,
+  channel,
+  beforeOpen,
+}: RenameSheetOptions): RenameSheet | null {
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Rename note",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Rename sheet content wrapper not found.");
+    return null;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-rename='${name}']`);
+
+  const form = query<HTMLFormElement>("form");
+  const input = query<HTMLInputElement>("input");
+  const intro = query<HTMLElement>("intro");
+  const warning = query<HTMLElement>("warning");
+  const submitButton = query<HTMLButtonElement>("submit");
+  if (!form || !input || !submitButton) {
+    console.warn("Rename sheet form elements are missing.");
+    return null;
+  }
+
+  let currentSlug: string | null = null;
+
+  const hideWarning = () => {
+    if (!warning) return;
+    warning.hidden = true;
+    warning.textContent = "";
+  };
+
+  const showWarning = (message: string) => {
+    if (!warning) return;
+    warning.textContent = message;
+    warning.hidden = false;
+  };
+
+  const announceRename = (
+    from: string,
+    to: string,
+    rewritten: RewrittenNote[]
+  ) => {
+    channel.postMessage(createNoteRenameMessage(from, to));
+    rewritten.forEach(({ slug, content }) => {
+      channel.postMessage(createNoteUpdateMessage(slug, content));
+      if (slug === noteSync.slug) {
+        noteSync.merge(content);
+      }
+    });
+  };
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    hideWarning();
+    const from = currentSlug;
+    if (!from) {
+      return;
+    }
+
+    const to = slugify(input.value);
+    if (!to) {
+      showWarning("Enter a key using letters, numbers, or dashes.");
+      return;
+    }
+    if (to === from) {
+      bottomSheet.close();
+      return;
+    }
+    if (isReservedSlug(to)) {
+      showWarning("That key is reserved. Please pick another name.");
+      return;
+    }
+
+    const isActiveNote = from === noteSync.slug;
+    let releaseSaves: (() => void) | null = null;
+    submitButton.disabled = true;
+    try {
+      if (isActiveNote) {
+        const flushed = noteSync.flush();
+        // A save under the old key while the note is moved would bring it
+        // back, and private notes are still encrypting the last one.
+        releaseSaves = noteSync.holdSaves();
+        await flushed;
+      }
+      const { rewritten, lockedNotes } = await renameNote(from, to);
+      if (isActiveNote) {
+        noteSync.retarget(to);
+        window.history.replaceState(null, "", getNoteLocation(to));
+      }
+      announceRename(from, to, rewritten);
+      if (lockedNotes.length) {
+        // Submitting again only closes the sheet.
+        currentSlug = to;
+        input.value = to;
+        showWarning(
+          `Renamed, but links inside ${formatLockedNotes(lockedNotes)} were not updated. Unlock ${lockedNotes.length === 1 ? "it" : "them"} and fix any links to “${from}” by hand.`
+        );
+        return;
+      }
+      currentSlug = null;
+      bottomSheet.close();
+    } catch (error) {
+      showWarning(
+        error instanceof Error
+          ? error.message
+          : "We couldn't rename this note. Please try again."
+      );
+    } finally {
+      releaseSaves?.();
+      submitButton.disabled = false;
+    }
+  });
+
+  const close = () => {
+    currentSlug = null;
+    bottomSheet.close();
+  };
+  query<HTMLButtonElement>("close")?.addEventListener("click", close);
+  query<HTMLButtonElement>("cancel")?.addEventListener("click", close);
+
+  const open = (slug: string, title: string) => {
+    beforeOpen?.();
+    currentSlug = slug;
+    input.value = slug;
+    if (intro) {
+      intro.textContent = `Choose a new key for “${title || slug}”.`;
+    }
+    hideWarning();
+    bottomSheet.open();
+    window.setTimeout(() => {
+      input.focus({ preventScroll: true });
+      input.select();
+    }, 120);
+  };
+
+  return { open };
+}
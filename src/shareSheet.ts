@@ -0,0 +1,191 @@
+import { createBottomSheet } from "@plainsheet/core";
+import { sanitizeHtml, type NoteSync } from "./note.ts";
+import { registerCommand } from "./shortcuts.ts";
+import { showToast } from "./toast.ts";
+import { LONG_SHARE_LINK_LENGTH, createShareLink } from "./utils/shareLink.ts";
+
+type ShareSheetOptions = {
+  noteElement: HTMLDivElement;
+  noteSync: NoteSync;
+};
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Share note">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Share note</h2>
+      <button type="button" class="note-sheet__close" data-share="close" aria-label="Close share note"></button>
+    </header>
+    <p class="note-sheet__intro">A link carries the whole note inside it, so nothing is uploaded. Anyone with the link can read the note and import a copy. Pictures are left out.</p>
+    <p class="note-sheet__warning" data-share="warning" hidden></p>
+    <div class="note-sheet__actions note-sheet__actions--start">
+      <button type="button" class="note-sheet__button note-sheet__button--primary" data-share="copy-link">Copy link</button>
+      <button type="button" class="note-sheet__button" data-share="share-link" hidden>Share link</button>
+      <button type="button" class="note-sheet__button" data-share="share-text" hidden>Share as text</button>
+    </div>
+    <p class="note-sheet__hint" data-share="status" role="status" aria-live="polite"></p>
+  </section>
+`;
+
+const canShare = () => typeof navigator.share === "function";
+
+/**
+ * Shares the note as text through the system share sheet, or as a link
+ * that holds the note itself. Private notes are never put into links.
+ */
+export function setupShareSheet(
+  trigger: HTMLButtonElement,
+  { noteElement, noteSync }: ShareSheetOptions
+): boolean {
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Share note",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Share sheet content wrapper not found.");
+    return false;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-share='${name}']`);
+
+  const copyLinkButton = query<HTMLButtonElement>("copy-link");
+  const shareLinkButton = query<HTMLButtonElement>("share-link");
+  const shareTextButton = query<HTMLButtonElement>("share-text");
+  const warning = query<HTMLElement>("warning");
+  const status = query<HTMLElement>("status");
+  if (!copyLinkButton || !shareLinkButton || !shareTextButton) {
+    console.warn("Share sheet elements are missing.");
+    return false;
+  }
+
+  const hideWarning = () => {
+    if (!warning) return;
+    warning.hidden = true;
+    warning.textContent = "";
+  };
+
+  const showWarning = (message: string) => {
+    if (!warning) return;
+    warning.textContent = message;
+    warning.hidden = false;
+  };
+
+  const setStatus = (message: string) => {
+    if (status) {
+      status.textContent = message;
+    }
+  };
+
+  const getShareLink = () => {
+    noteSync.flush();
+    return createShareLink(sanitizeHtml(noteElement.innerHTML));
+  };
+
+  const describeLink = (link: string) => {
+    return link.length > LONG_SHARE_LINK_LENGTH
+      ? "This note makes a very long link. Some apps may cut it off, so sending it as a file or text can be safer."
+      : "";
+  };
+
+  const copyLink = async () => {
+    const link = getShareLink();
+    try {
+      await navigator.clipboard.writeText(link);
+      return link;
+    } catch (error) {
+      console.error("Unable to copy share link", error);
+      return null;
+    }
+  };
+
+  const shareText = () => {
+    try {
+      void navigator.share?.({
+        title: document.title || "Note",
+        text: noteElement.outerText,
+      });
+    } catch {}
+  };
+
+  copyLinkButton.addEventListener("click", async () => {
+    hideWarning();
+    const link = await copyLink();
+    if (!link) {
+      showWarning("Copy failed. Your browser blocked clipboard access.");
+      return;
+    }
+    setStatus(describeLink(link) || "Link copied to the clipboard.");
+  });
+
+  shareLinkButton.addEventListener("click", async () => {
+    hideWarning();
+    const link = getShareLink();
+    setStatus(describeLink(link));
+    try {
+      await navigator.share({ title: document.title || "Note", url: link });
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === "AbortError")) {
+        console.error("Unable to share link", error);
+        showWarning("The link couldn't be shared. Try copying it instead.");
+      }
+    }
+  });
+
+  shareTextButton.addEventListener("click", shareText);
+
+  query<HTMLButtonElement>("close")?.addEventListener("click", () => {
+    bottomSheet.close();
+  });
+
+  const openSheet = () => {
+    hideWarning();
+    setStatus("");
+    const isPrivate = noteSync.encrypted || noteSync.locked;
+    copyLinkButton.disabled = isPrivate;
+    shareLinkButton.disabled = isPrivate;
+    shareLinkButton.hidden = !canShare();
+    shareTextButton.hidden = !canShare() || noteSync.locked;
+    if (isPrivate) {
+      showWarning(
+        "Private notes can't be shared as links, since the link would hold the note unencrypted."
+      );
+    }
+    bottomSheet.open();
+  };
+
+  trigger.addEventListener("click", openSheet);
+
+  registerCommand({
+    id: "share-note",
+    label: "Share note",
+    keywords: ["send", "link", "url"],
+    needsPage: true,
+    run: openSheet,
+  });
+  registerCommand({
+    id: "copy-share-link",
+    label: "Copy link to note",
+    keywords: ["share", "url", "send"],
+    isAvailable: () => !noteSync.encrypted && !noteSync.locked,
+    run: () => {
+      void copyLink().then((link) => {
+        showToast({
+          message: link
+            ? describeLink(link) || "Link copied to the clipboard."
+            : "Copy failed. Your browser blocked clipboard access.",
+        });
+      });
+    },
+  });
+
+  return true;
+}
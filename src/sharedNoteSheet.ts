@@ -0,0 +1,205 @@
+import { createBottomSheet } from "@plainsheet/core";
+import { sanitizeHtml } from "./note.ts";
+import { noteHtmlToPlainText } from "./utils/clipboardFormats.ts";
+import { isEncryptedValue } from "./utils/noteCrypto.ts";
+import { getNoteStorageKey, writeStoredValue } from "./utils/noteStorage.ts";
+import { getNoteLocation } from "./utils/noteUrl.ts";
+import {
+  clearSharedNoteFragment,
+  hasSharedNote,
+  readSharedNote,
+} from "./utils/shareLink.ts";
+import {
+  doesSlugExist,
+  findAvailableSlug,
+  isReservedSlug,
+  slugify,
+} from "./utils/slug.ts";
+
+const FALLBACK_SLUG = "shared-note";
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Shared note">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Someone shared a note with you</h2>
+      <button type="button" class="note-sheet__close" data-shared-note="close" aria-label="Close shared note"></button>
+    </header>
+    <p class="note-sheet__intro" data-shared-note="intro">Have a look, then keep a copy in your own notes. Nothing changes until you import it.</p>
+    <div class="note-share-preview" data-shared-note="preview" contenteditable="false"></div>
+    <form class="note-sheet__form" data-shared-note="form">
+      <label class="note-sheet__label">
+        <span>Save as</span>
+        <input type="text" inputmode="text" autocapitalize="none" autocomplete="off" spellcheck="false" maxlength="64" data-shared-note="input" />
+        <span class="note-sheet__hint">Use lowercase letters, numbers, and dashes.</span>
+      </label>
+      <p class="note-sheet__warning" data-shared-note="warning" hidden></p>
+      <div class="note-sheet__actions">
+        <button type="button" class="note-sheet__button" data-shared-note="cancel">Dismiss</button>
+        <button type="submit" class="note-sheet__button note-sheet__button--primary" data-shared-note="submit">Import note</button>
+      </div>
+    </form>
+  </section>
+`;
+
+const suggestSlug = async (markup: string) => {
+  const firstLine = noteHtmlToPlainText(markup).split("\n")[0] ?? "";
+  const slug = slugify(firstLine).slice(0, 64).replace(/-$/, "");
+  const base = slug && !isReservedSlug(slug) ? slug : FALLBACK_SLUG;
+  return (await doesSlugExist(base)) ? findAvailableSlug(base) : base;
+};
+
+type SharedNoteSheet = {
+  /** Shows the shared markup, or a warning when the link was unreadable. */
+  show(markup: string | null): void;
+};
+
+const createSharedNoteSheet = (): SharedNoteSheet | null => {
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Shared note",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Shared note sheet content wrapper not found.");
+    return null;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-shared-note='${name}']`);
+
+  const form = query<HTMLFormElement>("form");
+  const input = query<HTMLInputElement>("input");
+  const preview = query<HTMLElement>("preview");
+  const intro = query<HTMLElement>("intro");
+  const warning = query<HTMLElement>("warning");
+  const submitButton = query<HTMLButtonElement>("submit");
+  if (!form || !input || !preview || !submitButton) {
+    console.warn("Shared note sheet elements are missing.");
+    return null;
+  }
+
+  let markup: string | null = null;
+  let showSequence = 0;
+
+  const hideWarning = () => {
+    if (!warning) return;
+    warning.hidden = true;
+    warning.textContent = "";
+  };
+
+  const showWarning = (message: string) => {
+    if (!warning) return;
+    warning.textContent = message;
+    warning.hidden = false;
+  };
+
+  const dismiss = () => {
+    markup = null;
+    clearSharedNoteFragment();
+    bottomSheet.close();
+  };
+
+  query<HTMLButtonElement>("close")?.addEventListener("click", dismiss);
+  query<HTMLButtonElement>("cancel")?.addEventListener("click", dismiss);
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    if (markup === null) return;
+    hideWarning();
+
+    const slug = slugify(input.value);
+    if (!slug) {
+      showWarning("Please enter a key for the note.");
+      return;
+    }
+    if (isReservedSlug(slug)) {
+      showWarning("That key is reserved. Please pick another name.");
+      return;
+    }
+    if (await doesSlugExist(slug)) {
+      showWarning("A note with that key already exists.");
+      return;
+    }
+    // The note page picks the content up like any other stored note.
+    if (!(await writeStoredValue(getNoteStorageKey(slug), markup))) {
+      showWarning("We couldn't import the note. Please try again.");
+      return;
+    }
+    clearSharedNoteFragment();
+    window.location.assign(getNoteLocation(slug));
+  });
+
+  const show = (shared: string | null) => {
+    const showId = ++showSequence;
+    markup = shared;
+    const isReadable = shared !== null;
+    hideWarning();
+    preview.innerHTML = shared ?? "";
+    // The markup may carry its own editable islands, like code blocks.
+    preview.querySelectorAll("[contenteditable]").forEach((element) => {
+      element.setAttribute("contenteditable", "false");
+    });
+    preview.hidden = !isReadable;
+    if (intro) {
+      intro.hidden = !isReadable;
+    }
+    input.value = "";
+    input.disabled = !isReadable;
+    submitButton.disabled = !isReadable;
+    if (!isReadable) {
+      showWarning(
+        "This link doesn't hold a note we can read. It may have been cut off when it was sent."
+      );
+    }
+    bottomSheet.open();
+
+    if (shared !== null) {
+      void suggestSlug(shared).then((slug) => {
+        if (showId === showSequence && !input.value) {
+          input.value = slug;
+        }
+      });
+    }
+  };
+
+  return { show };
+};
+
+/** The sanitized note a share link carries, or null when it is unreadable. */
+const readSanitizedSharedNote = () => {
+  const shared = readSharedNote();
+  if (shared === null) {
+    return null;
+  }
+  const sanitized = sanitizeHtml(shared);
+  // Stored as is, such a value would be taken for a private note.
+  return isEncryptedValue(sanitized) ? null : sanitized;
+};
+
+/**
+ * Opens a read-only preview when the page was opened from a share link and
+ * lets the recipient import the note under a key of their choice.
+ */
+export function setupSharedNoteImport(): void {
+  let sheet: SharedNoteSheet | null = null;
+
+  const handleLocation = () => {
+    if (!hasSharedNote()) {
+      return;
+    }
+    sheet ??= createSharedNoteSheet();
+    sheet?.show(readSanitizedSharedNote());
+  };
+
+  // Opening a second link in the same tab only changes the fragment.
+  window.addEventListener("hashchange", handleLocation);
+  handleLocation();
+}
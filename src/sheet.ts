@@ -1,13 +1,42 @@
 import { createBottomSheet } from "@plainsheet/core";
-import { decompressFromUTF16 } from "lz-string";
 import { NOTE_KEY_PREFIX, NOTE_INDEX_STORAGE_KEY } from "./constants.ts";
 import { isMobileDevice } from "./utils/device.ts";
+import { setupBackupSheet } from "./backupSheet.ts";
+import { setupRenameSheet } from "./renameSheet.ts";
+import { setupTrashSheet } from "./trashSheet.ts";
+import { setupStorageSheet } from "./storageSheet.ts";
+import { createOpenTasksView } from "./openTasksView.ts";
+import { createCalendarView } from "./calendarView.ts";
+import { getTrashedNoteLocation, showTrashUndoToast } from "./trashUndo.ts";
+import { formatBinding, getBinding, registerCommand } from "./shortcuts.ts";
+import type { NoteSync } from "./note.ts";
 import {
-  deleteNoteMetadata,
+  backfillNoteMetadata,
   loadNoteMetadataMap,
   saveNoteMetadata,
   type NoteMetadata,
+  type NoteMetadataUpdate,
 } from "./utils/noteMetadata.ts";
+import {
+  ensureNotesIndexed,
+  extractSearchableText,
+  invalidateSearchIndex,
+  searchNotes,
+  type SearchSnippetPart,
+} from "./utils/searchIndex.ts";
+import { isEncryptedValue } from "./utils/noteCrypto.ts";
+import { decodeStoredValue } from "./utils/noteStorage.ts";
+import { extractHashtags } from "./utils/hashtags.ts";
+import { moveNoteToTrash, type TrashedNote } from "./utils/noteTrash.ts";
+import { getActiveSlug, getNoteUrl } from "./utils/noteUrl.ts";
+import {
+  NOTE_SORT_LABELS,
+  groupNotes,
+  loadNoteSortOrder,
+  saveNoteSortOrder,
+  type NoteGroup,
+  type NoteSortOrder,
+} from "./utils/noteOrder.ts";
 import storage from "./storage.ts";
 
 type NoteEntry = {
@@ -15,40 +44,57 @@ type NoteEntry = {
   title: string;
   url: string;
   isActive: boolean;
+  updatedAt: number;
+  createdAt: number;
+  pinned: boolean;
+  tags: string[];
+  snippet?: SearchSnippetPart[];
+};
+
+type LibraryView = "notes" | "tasks" | "calendar";
+
+type SavedNotesSheetOptions = {
+  noteSync: NoteSync;
+  channel: BroadcastChannel;
 };
 
+// Titles of private notes are not stored anywhere readable.
+const PRIVATE_NOTE_TITLE = "Private note";
+
 const SHEET_TEMPLATE = `
   <section class="note-sheet" aria-label="Saved notes overview">
     <header class="note-sheet__header">
-      <p class="note-sheet__title">Press Cmd+K or Ctrl+K to quickly open your library</p>
+      <p class="note-sheet__title" data-note-sheet="title">Press Cmd+K or Ctrl+K to quickly open your library</p>
       <button type="button" class="note-sheet__close" data-note-sheet="close" aria-label="Close saved notes"></button>
     </header>
+    <div class="note-sheet__views" role="tablist" aria-label="Library view">
+      <button type="button" role="tab" class="note-sheet__view" data-note-sheet="view-notes" aria-selected="true">Notes</button>
+      <button type="button" role="tab" class="note-sheet__view" data-note-sheet="view-tasks" aria-selected="false">Open tasks</button>
+      <button type="button" role="tab" class="note-sheet__view" data-note-sheet="view-calendar" aria-selected="false">Calendar</button>
+    </div>
     <div class="note-sheet__search">
-      <label class="note-sheet__search-label">
-        <input type="search" data-note-sheet="search" placeholder="Filter by title or keyword" autocomplete="off" spellcheck="false" />
+      <label class="note-sheet__search-label" data-note-sheet="search-label">
+        <input type="search" data-note-sheet="search" placeholder="Search titles and note content" autocomplete="off" spellcheck="false" />
+      </label>
+      <label class="note-sheet__sort" data-note-sheet="sort-label">
+        <span>Sort by</span>
+        <select data-note-sheet="sort"></select>
       </label>
+      <div class="note-sheet__tags" data-note-sheet="tags" role="group" aria-label="Filter by tag" hidden></div>
     </div>
     <div class="note-sheet__body">
       <div data-note-sheet="list" class="note-sheet-list" role="list"></div>
+      <div data-note-sheet="tasks" class="note-sheet-list" hidden></div>
+      <div data-note-sheet="calendar" class="note-calendar" hidden></div>
     </div>
+    <footer class="note-sheet__footer">
+      <button type="button" class="note-sheet__button" data-note-sheet="trash">Trash</button>
+      <button type="button" class="note-sheet__button" data-note-sheet="backup">Backup &amp; restore</button>
+      <button type="button" class="note-sheet__button" data-note-sheet="storage">Storage</button>
+    </footer>
   </section>
 `;
 
-const decodeStoredValue = (rawValue: string | null) => {
-  if (typeof rawValue !== "string") {
-    return "";
-  }
-  try {
-    const decompressed = decompressFromUTF16(rawValue);
-    if (typeof decompressed === "string") {
-      return decompressed;
-    }
-  } catch {
-    /* ignore malformed compressed content */
-  }
-  return rawValue;
-};
-
 const toPlainText = (html: string) => {
   if (!html) {
     return "";
@@ -66,12 +112,41 @@ const toPlainText = (html: string) => {
   return text.replace(/\r?\n/g, "\n").trim();
 };
 
-const getActiveSlug = () => {
-  const params = new URLSearchParams(window.location.search);
-  return params.get("s") ?? "root";
+const loadNoteMarkup = async (slug: string): Promise<string> => {
+  try {
+    const rawValue = await storage.getItem<string>(`${NOTE_KEY_PREFIX}${slug}`);
+    return decodeStoredValue(rawValue);
+  } catch (error) {
+    console.error(`Unable to read note "${slug}" for indexing`, error);
+    return "";
+  }
+};
+
+const renderSnippet = (parts: SearchSnippetPart[]) => {
+  const snippet = document.createElement("span");
+  snippet.className = "note-card__snippet";
+  parts.forEach((part) => {
+    if (part.highlighted) {
+      const mark = document.createElement("mark");
+      mark.textContent = part.text;
+      snippet.appendChild(mark);
+    } else {
+      snippet.appendChild(document.createTextNode(part.text));
+    }
+  });
+  return snippet;
 };
 
-export function setupSavedNotesSheet(): void {
+const RENAME_ICON =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false" class="note-card__pin-icon"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M4 20h4l10.5 -10.5a2.828 2.828 0 1 0 -4 -4l-10.5 10.5v4" /><path d="M13.5 6.5l4 4" /></svg>';
+
+const PIN_ICON =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false" class="note-card__pin-icon"><path stroke="none" d="M0 0h24v24H0z" fill="none"/><path d="M15 4.5l-4 4l-4 1.5l-1.5 1.5l7 7l1.5 -1.5l1.5 -4l4 -4" /><path d="M9 15l-4.5 4.5" /><path d="M14.5 4l5.5 5.5" /></svg>';
+
+export function setupSavedNotesSheet({
+  noteSync,
+  channel,
+}: SavedNotesSheetOptions): void {
   const trigger = document.getElementById("my-notes");
   if (!(trigger instanceof HTMLButtonElement)) {
     if (trigger) {
@@ -115,36 +190,113 @@ export function setupSavedNotesSheet(): void {
   const searchInput = contentWrapper.querySelector<HTMLInputElement>(
     "[data-note-sheet='search']"
   );
+  const sortSelect = contentWrapper.querySelector<HTMLSelectElement>(
+    "[data-note-sheet='sort']"
+  );
+  const tagBar = contentWrapper.querySelector<HTMLElement>(
+    "[data-note-sheet='tags']"
+  );
+  const sortLabel = contentWrapper.querySelector<HTMLElement>(
+    "[data-note-sheet='sort-label']"
+  );
+  const searchLabel = contentWrapper.querySelector<HTMLElement>(
+    "[data-note-sheet='search-label']"
+  );
+  const tasksContainer = contentWrapper.querySelector<HTMLElement>(
+    "[data-note-sheet='tasks']"
+  );
+  const calendarContainer = contentWrapper.querySelector<HTMLElement>(
+    "[data-note-sheet='calendar']"
+  );
+  const viewContainers: Record<LibraryView, HTMLElement | null> = {
+    notes: listContainer,
+    tasks: tasksContainer,
+    calendar: calendarContainer,
+  };
+  const viewTabs: Record<LibraryView, HTMLButtonElement | null> = {
+    notes: contentWrapper.querySelector("[data-note-sheet='view-notes']"),
+    tasks: contentWrapper.querySelector("[data-note-sheet='view-tasks']"),
+    calendar: contentWrapper.querySelector("[data-note-sheet='view-calendar']"),
+  };
   const closeTrigger = contentWrapper.querySelector<HTMLElement>(
     "[data-note-sheet='close']"
   );
+  const sheetTitle = contentWrapper.querySelector<HTMLElement>(
+    "[data-note-sheet='title']"
+  );
+  const backupTrigger = contentWrapper.querySelector<HTMLButtonElement>(
+    "[data-note-sheet='backup']"
+  );
+  if (backupTrigger) {
+    setupBackupSheet(backupTrigger, {
+      beforeOpen: () => bottomSheet.close(),
+    });
+  }
+
+  const trashTrigger = contentWrapper.querySelector<HTMLButtonElement>(
+    "[data-note-sheet='trash']"
+  );
+  if (trashTrigger) {
+    setupTrashSheet(trashTrigger, {
+      beforeOpen: () => bottomSheet.close(),
+    });
+  }
+
+  const storageTrigger = contentWrapper.querySelector<HTMLButtonElement>(
+    "[data-note-sheet='storage']"
+  );
+  if (storageTrigger) {
+    setupStorageSheet(storageTrigger, {
+      noteSync,
+      beforeOpen: () => bottomSheet.close(),
+    });
+  }
+
+  const renameSheet = setupRenameSheet({
+    noteSync,
+    channel,
+    beforeOpen: () => bottomSheet.close(),
+  });
+
+  const openTasksView = createOpenTasksView({ noteSync, channel });
+  const calendarView = createCalendarView();
 
   let storageReadFailed = false;
+  let view: LibraryView = "notes";
   let renderSequence = 0;
-
-  const deleteNote = async (slug: string): Promise<boolean> => {
-    if (slug === "root") {
-      return false;
+  let sortOrder: NoteSortOrder = "updated";
+  const selectedTags = new Set<string>();
+  const sortOrderReady = loadNoteSortOrder().then((order) => {
+    sortOrder = order;
+    if (sortSelect) {
+      sortSelect.value = order;
     }
+  });
 
-    const storageKey = `${NOTE_KEY_PREFIX}${slug}`;
-    let hadSuccess = false;
+  if (sortSelect) {
+    (Object.keys(NOTE_SORT_LABELS) as NoteSortOrder[]).forEach((order) => {
+      const option = document.createElement("option");
+      option.value = order;
+      option.textContent = NOTE_SORT_LABELS[order];
+      sortSelect.appendChild(option);
+    });
+    sortSelect.value = sortOrder;
+    sortSelect.addEventListener("change", () => {
+      sortOrder = sortSelect.value as NoteSortOrder;
+      void saveNoteSortOrder(sortOrder);
+      void renderSavedNotes();
+    });
+  }
 
-    try {
-      await storage.removeItem(storageKey);
-      hadSuccess = true;
-    } catch (error) {
-      console.error(`Unable to remove stored note "${slug}"`, error);
+  const deleteNote = async (slug: string): Promise<TrashedNote | null> => {
+    if (slug === "root") {
+      return null;
     }
-
-    try {
-      await deleteNoteMetadata(slug);
-      hadSuccess = true;
-    } catch (error) {
-      console.error(`Unable to remove note metadata for "${slug}"`, error);
+    if (slug === noteSync.slug) {
+      // The trash must take the last save, not be followed by it.
+      await noteSync.flush();
     }
-
-    return hadSuccess;
+    return moveNoteToTrash(slug);
   };
 
   const collectSlugs = async (
@@ -169,11 +321,7 @@ export function setupSavedNotesSheet(): void {
       console.error("Unable to read saved notes from storage", error);
       storageReadFailed = true;
     }
-    return Array.from(slugs).sort((a, b) => {
-      if (a === "root") return -1;
-      if (b === "root") return 1;
-      return a.localeCompare(b);
-    });
+    return Array.from(slugs);
   };
 
   const buildEntries = async (): Promise<NoteEntry[]> => {
@@ -183,57 +331,171 @@ export function setupSavedNotesSheet(): void {
     if (storageReadFailed) {
       return [];
     }
+    // Notes scanned here are written back together in one index update.
+    const backfilled: NoteMetadataUpdate[] = [];
     const entries = await Promise.all(
       slugs.map(async (slug) => {
         const storageKey = `${NOTE_KEY_PREFIX}${slug}`;
         const metadata = metadataMap[slug];
+        // Without a recorded save time the note sorts into Older, and the
+        // backfill doesn't stamp it as edited just now.
+        const updatedAt = metadata?.updatedAt ?? 0;
         let title = metadata?.title;
+        let tags = metadata?.tags;
 
-        if (!title) {
+        if (metadata?.encrypted) {
+          title = PRIVATE_NOTE_TITLE;
+          tags = [];
+        } else if (!title || !tags) {
           const storedValueRaw = await storage.getItem<string>(storageKey);
-          if (storedValueRaw !== null) {
-            const storedValue = decodeStoredValue(storedValueRaw);
-            const plainText = toPlainText(storedValue);
-            const [firstLine] = plainText
-              .split(/\n+/)
-              .map((line) => line.trim());
-            title =
-              firstLine ||
-              (slug === "root" ? "Root note" : slug.replace(/[_-]/g, " "));
-
-            void saveNoteMetadata({
+          if (isEncryptedValue(storedValueRaw)) {
+            title = PRIVATE_NOTE_TITLE;
+            tags = [];
+            backfilled.push({
               slug,
-              title,
-              updatedAt: metadata?.updatedAt ?? Date.now(),
+              title: "",
+              updatedAt,
+              tags,
+              encrypted: true,
             });
-          } else {
+          } else if (storedValueRaw !== null) {
+            const storedValue = decodeStoredValue(storedValueRaw);
+            if (!title) {
+              const plainText = toPlainText(storedValue);
+              const [firstLine] = plainText
+                .split(/\n+/)
+                .map((line) => line.trim());
+              title =
+                firstLine ||
+                (slug === "root" ? "Root note" : slug.replace(/[_-]/g, " "));
+            }
+            tags = extractHashtags(extractSearchableText(storedValue));
+
+            backfilled.push({ slug, title, updatedAt, tags });
+          } else if (!title) {
             title = slug === "root" ? "Root note" : slug.replace(/[_-]/g, " ");
           }
         }
 
-        const pathSegment = slug === "root" ? "" : slug;
-        const encodedSegment = pathSegment
-          ? encodeURIComponent(pathSegment)
-          : "";
-        const url = encodedSegment
-          ? `${window.location.origin}/${encodedSegment}`
-          : `${window.location.origin}/`;
         return {
           slug,
           title,
-          url,
+          url: getNoteUrl(slug),
           isActive: slug === activeSlug,
+          updatedAt,
+          createdAt: metadata?.createdAt ?? updatedAt,
+          pinned: metadata?.pinned ?? false,
+          tags: tags ?? [],
         };
       })
     );
+    void backfillNoteMetadata(backfilled, metadataMap);
     return entries;
   };
 
+  const searchEntries = async (
+    entries: NoteEntry[],
+    filterTerm: string
+  ): Promise<NoteEntry[]> => {
+    if (!filterTerm) {
+      return entries;
+    }
+
+    await ensureNotesIndexed(
+      entries.map((entry) => entry.slug),
+      loadNoteMarkup
+    );
+    const results = await searchNotes(filterTerm);
+    const resultsBySlug = new Map(
+      results.map((result) => [result.slug, result])
+    );
+
+    const ranked = entries.flatMap((entry) => {
+      const haystack = `${entry.title} ${entry.slug}`.toLowerCase();
+      const titleMatches = haystack.includes(filterTerm);
+      const result = resultsBySlug.get(entry.slug);
+      if (!titleMatches && !result) {
+        return [];
+      }
+      const score = (titleMatches ? 1 : 0) + (result?.score ?? 0);
+      return [{ entry: { ...entry, snippet: result?.snippet }, score }];
+    });
+
+    return ranked.sort((a, b) => b.score - a.score).map(({ entry }) => entry);
+  };
+
+  const renderTagBar = (entries: NoteEntry[]) => {
+    if (!tagBar) {
+      return;
+    }
+    const counts = new Map<string, number>();
+    entries.forEach((entry) => {
+      entry.tags.forEach((tag) => {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      });
+    });
+    selectedTags.forEach((tag) => {
+      if (!counts.has(tag)) {
+        selectedTags.delete(tag);
+      }
+    });
+
+    tagBar.innerHTML = "";
+    tagBar.hidden = counts.size === 0;
+    Array.from(counts)
+      .sort(([tagA, countA], [tagB, countB]) => {
+        return countB - countA || tagA.localeCompare(tagB);
+      })
+      .forEach(([tag, count]) => {
+        const chip = document.createElement("button");
+        chip.type = "button";
+        chip.className = "note-tag";
+        chip.setAttribute("aria-pressed", String(selectedTags.has(tag)));
+
+        const label = document.createElement("span");
+        label.textContent = `#${tag}`;
+        const countBadge = document.createElement("span");
+        countBadge.className = "note-tag__count";
+        countBadge.textContent = String(count);
+        chip.append(label, countBadge);
+
+        chip.addEventListener("click", () => {
+          if (selectedTags.has(tag)) {
+            selectedTags.delete(tag);
+          } else {
+            selectedTags.add(tag);
+          }
+          void renderSavedNotes();
+        });
+        tagBar.appendChild(chip);
+      });
+  };
+
+  const filterByTags = (entries: NoteEntry[]) => {
+    if (!selectedTags.size) {
+      return entries;
+    }
+    return entries.filter((entry) =>
+      Array.from(selectedTags).every((tag) => entry.tags.includes(tag))
+    );
+  };
+
+  const togglePinned = async (entry: NoteEntry) => {
+    await saveNoteMetadata({
+      slug: entry.slug,
+      title: entry.title,
+      updatedAt: entry.updatedAt,
+      pinned: !entry.pinned,
+    });
+    void renderSavedNotes();
+  };
+
   const renderSavedNotes = async () => {
     const renderId = ++renderSequence;
     listContainer.innerHTML =
       '<div class="note-sheet-empty"><p>Loading…</p></div>';
 
+    await sortOrderReady;
     const entries = await buildEntries();
     if (renderId !== renderSequence) {
       return;
@@ -250,12 +512,15 @@ export function setupSavedNotesSheet(): void {
       return;
     }
 
+    renderTagBar(entries);
     const filterTerm = searchInput?.value.trim().toLowerCase() ?? "";
-    const filteredEntries = entries.filter((entry) => {
-      if (!filterTerm) return true;
-      const haystack = `${entry.title} ${entry.slug}`.toLowerCase();
-      return haystack.includes(filterTerm);
-    });
+    const filteredEntries = await searchEntries(
+      filterByTags(entries),
+      filterTerm
+    );
+    if (renderId !== renderSequence) {
+      return;
+    }
 
     if (!entries.length) {
       const emptyState = document.createElement("div");
@@ -270,15 +535,79 @@ export function setupSavedNotesSheet(): void {
       const noResults = document.createElement("div");
       noResults.className = "note-sheet-empty";
       noResults.innerHTML =
-        "<p>Nothing matches that search.</p><p>Try another keyword or clear the filter.</p>";
+        "<p>Nothing matches that search.</p><p>Try another keyword or clear the filters.</p>";
       listContainer.appendChild(noResults);
       return;
     }
 
+    // Search results keep their relevance order instead of being grouped.
+    const groups: NoteGroup<NoteEntry>[] = filterTerm
+      ? [{ label: "", entries: filteredEntries }]
+      : groupNotes(filteredEntries, sortOrder);
+
+    groups.forEach((group) => {
+      if (group.label) {
+        const heading = document.createElement("h3");
+        heading.className = "note-sheet-group__title";
+        heading.textContent = group.label;
+        listContainer.appendChild(heading);
+      }
+      listContainer.appendChild(renderEntries(group.entries));
+    });
+  };
+
+  const renderView = () => {
+    if (view === "tasks" && tasksContainer) {
+      const filterTerm = searchInput?.value.trim().toLowerCase() ?? "";
+      return openTasksView.render(tasksContainer, filterTerm);
+    }
+    if (view === "calendar" && calendarContainer) {
+      return calendarView.render(calendarContainer);
+    }
+    return renderSavedNotes();
+  };
+
+  const setView = (nextView: LibraryView) => {
+    view = viewContainers[nextView] ? nextView : "notes";
+    const showTasks = view === "tasks";
+    (Object.keys(viewTabs) as LibraryView[]).forEach((key) => {
+      viewTabs[key]?.setAttribute("aria-selected", String(key === view));
+      const container = viewContainers[key];
+      if (container) {
+        container.hidden = key !== view;
+      }
+    });
+    if (sortLabel) {
+      sortLabel.hidden = view !== "notes";
+    }
+    if (tagBar && view !== "notes") {
+      tagBar.hidden = true;
+    }
+    if (searchLabel) {
+      searchLabel.hidden = view === "calendar";
+    }
+    if (searchInput) {
+      searchInput.placeholder = showTasks
+        ? "Search open tasks"
+        : "Search titles and note content";
+    }
+  };
+
+  (Object.keys(viewTabs) as LibraryView[]).forEach((key) => {
+    viewTabs[key]?.addEventListener("click", () => {
+      if (view === key) {
+        return;
+      }
+      setView(key);
+      void renderView();
+    });
+  });
+
+  const renderEntries = (entries: NoteEntry[]) => {
     const listElement = document.createElement("ul");
     listElement.className = "note-sheet-grid";
 
-    filteredEntries.forEach((entry) => {
+    entries.forEach((entry) => {
       const item = document.createElement("li");
       item.className = "note-sheet-grid__item";
 
@@ -298,9 +627,51 @@ export function setupSavedNotesSheet(): void {
       meta.textContent = entry.slug === "root" ? "default" : `/${entry.slug}`;
 
       anchor.appendChild(title);
+      if (entry.snippet?.length) {
+        anchor.appendChild(renderSnippet(entry.snippet));
+      }
       anchor.appendChild(meta);
       card.appendChild(anchor);
 
+      const pinButton = document.createElement("button");
+      pinButton.type = "button";
+      pinButton.tabIndex = -1;
+      pinButton.className = "note-card__pin";
+      pinButton.setAttribute("aria-pressed", String(entry.pinned));
+      const pinLabel = `${entry.pinned ? "Unpin" : "Pin"} ${
+        entry.title || entry.slug
+      }`;
+      pinButton.setAttribute("aria-label", pinLabel);
+      pinButton.title = pinLabel;
+      pinButton.innerHTML = PIN_ICON;
+      pinButton.addEventListener("click", (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        if (pinButton.disabled) {
+          return;
+        }
+        pinButton.disabled = true;
+        void togglePinned(entry);
+      });
+      card.appendChild(pinButton);
+
+      if (entry.slug !== "root" && renameSheet) {
+        const renameButton = document.createElement("button");
+        renameButton.type = "button";
+        renameButton.tabIndex = -1;
+        renameButton.className = "note-card__pin note-card__rename";
+        const renameLabel = `Rename ${entry.title || entry.slug}`;
+        renameButton.setAttribute("aria-label", renameLabel);
+        renameButton.title = renameLabel;
+        renameButton.innerHTML = RENAME_ICON;
+        renameButton.addEventListener("click", (event) => {
+          event.preventDefault();
+          event.stopPropagation();
+          renameSheet.open(entry.slug, entry.title);
+        });
+        card.appendChild(renameButton);
+      }
+
       if (entry.slug !== "root") {
         const deleteButton = document.createElement("button");
         deleteButton.type = "button";
@@ -321,16 +692,18 @@ export function setupSavedNotesSheet(): void {
           }
           deleteButton.disabled = true;
           void (async () => {
-            const deleted = await deleteNote(entry.slug);
-            if (!deleted) {
+            const trashed = await deleteNote(entry.slug);
+            if (!trashed) {
               deleteButton.disabled = false;
+              void renderSavedNotes();
               return;
             }
             if (entry.isActive) {
               bottomSheet.close();
-              window.location.assign("/");
+              window.location.assign(getTrashedNoteLocation(trashed.id));
               return;
             }
+            showTrashUndoToast(trashed, () => void renderSavedNotes());
             void renderSavedNotes();
           })();
         });
@@ -347,7 +720,7 @@ export function setupSavedNotesSheet(): void {
       listElement.appendChild(item);
     });
 
-    listContainer.appendChild(listElement);
+    return listElement;
   };
 
   if (closeTrigger instanceof HTMLButtonElement) {
@@ -357,14 +730,27 @@ export function setupSavedNotesSheet(): void {
   }
 
   searchInput?.addEventListener("input", () => {
-    void renderSavedNotes();
+    void renderView();
   });
 
-  trigger.addEventListener("click", () => {
+  // The hint follows the shortcut, which can be rebound from the palette.
+  const updateTitle = () => {
+    if (!sheetTitle) return;
+    const binding = getBinding("switch-note");
+    sheetTitle.textContent = binding
+      ? `Press ${formatBinding(binding)} to quickly open your library`
+      : "Your library";
+  };
+
+  const openLibrary = (nextView: LibraryView) => {
     if (searchInput) {
       searchInput.value = "";
     }
-    void renderSavedNotes();
+    selectedTags.clear();
+    invalidateSearchIndex();
+    setView(nextView);
+    updateTitle();
+    void renderView();
     bottomSheet.open();
     if (isMobileDevice()) {
       return;
@@ -373,24 +759,40 @@ export function setupSavedNotesSheet(): void {
     window.setTimeout(() => {
       searchInput?.focus({ preventScroll: true });
     }, 120);
+  };
+
+  trigger.addEventListener("click", () => {
+    openLibrary("notes");
   });
 
-  window.addEventListener("keydown", (event) => {
-    if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
-      event.preventDefault();
-      const isOpen = bottomSheet.getIsOpen();
-      if (isOpen) {
+  registerCommand({
+    id: "switch-note",
+    label: "Switch note",
+    keywords: ["library", "open", "search", "notes"],
+    defaultBinding: "Mod+K",
+    needsPage: true,
+    run: () => {
+      if (bottomSheet.getIsOpen()) {
         bottomSheet.close();
         return;
       }
-      if (searchInput) {
-        searchInput.value = "";
-      }
-      void renderSavedNotes();
-      bottomSheet.open();
-      window.setTimeout(() => {
-        searchInput?.focus({ preventScroll: true });
-      }, 120);
-    }
+      openLibrary("notes");
+    },
+  });
+
+  registerCommand({
+    id: "open-tasks",
+    label: "Show open tasks",
+    keywords: ["todo", "checklist"],
+    needsPage: true,
+    run: () => openLibrary("tasks"),
+  });
+
+  registerCommand({
+    id: "open-calendar",
+    label: "Show daily notes calendar",
+    keywords: ["daily", "journal", "month", "date"],
+    needsPage: true,
+    run: () => openLibrary("calendar"),
   });
 }
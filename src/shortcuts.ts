@@ -0,0 +1,235 @@
+import { SHORTCUT_BINDINGS_STORAGE_KEY } from "./constants.ts";
+import storage from "./storage.ts";
+
+/**
+ * A key combination such as `Mod+Shift+K`. `Mod` stands for Cmd or Ctrl,
+ * and either one works on every platform.
+ */
+export type Binding = string;
+
+export type Command = {
+  id: string;
+  label: string;
+  keywords?: string[];
+  defaultBinding?: Binding;
+  /** Opens UI on the page, so the mini window hands the note back first. */
+  needsPage?: boolean;
+  isAvailable?: () => boolean;
+  run(): void;
+};
+
+type ShortcutTargetOptions = {
+  /** Called before running a command that needs the page. */
+  beforePageCommand?: () => void;
+};
+
+const MODIFIER_KEYS = new Set(["Meta", "Control", "Alt", "Shift"]);
+const BINDING_PATTERN = /^((?:(?:Mod|Alt|Shift)\+)*)(.+)$/;
+
+const commands = new Map<string, Command>();
+// Only bindings the user changed; null means the shortcut was removed.
+const overrides = new Map<string, Binding | null>();
+let isPaused = false;
+
+const isApplePlatform = () => {
+  return /Mac|iPhone|iPad/.test(navigator.platform || navigator.userAgent);
+};
+
+const getKeyName = (event: KeyboardEvent) => {
+  // Codes keep letters stable when Alt or Shift change the typed character.
+  if (/^Key[A-Z]$/.test(event.code)) {
+    return event.code.slice(3);
+  }
+  if (/^Digit\d$/.test(event.code)) {
+    return event.code.slice(5);
+  }
+  if (event.key === " ") {
+    return "Space";
+  }
+  return event.key.length === 1 ? event.key.toUpperCase() : event.key;
+};
+
+export function getEventBinding(event: KeyboardEvent): Binding | null {
+  if (!event.key || MODIFIER_KEYS.has(event.key)) {
+    return null;
+  }
+  const parts: string[] = [];
+  if (event.metaKey || event.ctrlKey) {
+    parts.push("Mod");
+  }
+  if (event.altKey) {
+    parts.push("Alt");
+  }
+  if (event.shiftKey) {
+    parts.push("Shift");
+  }
+  parts.push(getKeyName(event));
+  return parts.join("+");
+}
+
+/** Plain keys are left for typing; a shortcut needs Cmd, Ctrl or Alt. */
+export function isUsableBinding(binding: Binding): boolean {
+  return binding.startsWith("Mod+") || binding.startsWith("Alt+");
+}
+
+export function formatBinding(binding: Binding): string {
+  const match = binding.match(BINDING_PATTERN);
+  if (!match) {
+    return binding;
+  }
+  const modifiers = match[1].split("+").filter(Boolean);
+  const key = match[2];
+  if (isApplePlatform()) {
+    const symbols: Record<string, string> = { Mod: "⌘", Alt: "⌥", Shift: "⇧" };
+    return `${modifiers.map((modifier) => symbols[modifier]).join("")}${key}`;
+  }
+  const names: Record<string, string> = { Mod: "Ctrl" };
+  return [
+    ...modifiers.map((modifier) => names[modifier] ?? modifier),
+    key,
+  ].join("+");
+}
+
+export function registerCommand(command: Command): void {
+  if (commands.has(command.id)) {
+    console.warn(`Command "${command.id}" was registered twice.`);
+  }
+  commands.set(command.id, command);
+}
+
+export function getBinding(id: string): Binding | null {
+  if (overrides.has(id)) {
+    return overrides.get(id) ?? null;
+  }
+  return commands.get(id)?.defaultBinding ?? null;
+}
+
+/** Registered commands that can run right now, in registration order. */
+export function getAvailableCommands(): Command[] {
+  return [...commands.values()].filter(
+    (command) => command.isAvailable?.() ?? true
+  );
+}
+
+export function runCommand(command: Command): void {
+  try {
+    command.run();
+  } catch (error) {
+    console.error(`Unable to run command "${command.id}"`, error);
+  }
+}
+
+async function persistBindingOverrides(): Promise<void> {
+  try {
+    if (overrides.size === 0) {
+      await storage.removeItem(SHORTCUT_BINDINGS_STORAGE_KEY);
+    } else {
+      await storage.setItem(
+        SHORTCUT_BINDINGS_STORAGE_KEY,
+        Object.fromEntries(overrides)
+      );
+    }
+  } catch (error) {
+    console.error("Unable to persist shortcut bindings", error);
+  }
+}
+
+async function loadBindingOverrides(): Promise<void> {
+  try {
+    const stored = await storage.getItem<Record<string, unknown>>(
+      SHORTCUT_BINDINGS_STORAGE_KEY
+    );
+    if (!stored || typeof stored !== "object") {
+      return;
+    }
+    Object.entries(stored).forEach(([id, binding]) => {
+      if (binding === null || typeof binding === "string") {
+        overrides.set(id, binding);
+      }
+    });
+  } catch (error) {
+    console.error("Unable to load shortcut bindings", error);
+  }
+}
+
+/**
+ * Binds a command to a key combination, or removes its shortcut when
+ * `binding` is null. A command that already used the combination loses it.
+ * Resolves with the label of that command, if any.
+ */
+export async function setBinding(
+  id: string,
+  binding: Binding | null
+): Promise<string | null> {
+  let displaced: string | null = null;
+  if (binding) {
+    for (const other of commands.values()) {
+      if (other.id !== id && getBinding(other.id) === binding) {
+        overrides.set(other.id, null);
+        displaced = other.label;
+      }
+    }
+  }
+  const defaultBinding = commands.get(id)?.defaultBinding ?? null;
+  if (binding === defaultBinding) {
+    overrides.delete(id);
+  } else {
+    overrides.set(id, binding);
+  }
+  await persistBindingOverrides();
+  return displaced;
+}
+
+export async function resetBindings(): Promise<void> {
+  overrides.clear();
+  await persistBindingOverrides();
+}
+
+/** Stops shortcuts from firing, e.g. while a new combination is recorded. */
+export function pauseShortcuts(paused: boolean): void {
+  isPaused = paused;
+}
+
+/**
+ * Runs commands whose shortcut is pressed in `target`. The page listens on
+ * its own window and the mini window adds its own, since key events do
+ * not cross between the two documents.
+ */
+export function listenForShortcuts(
+  target: Window,
+  { beforePageCommand }: ShortcutTargetOptions = {}
+): void {
+  target.addEventListener(
+    "keydown",
+    (event) => {
+      if (isPaused || event.defaultPrevented || event.isComposing) {
+        return;
+      }
+      const binding = getEventBinding(event);
+      if (!binding || !isUsableBinding(binding)) {
+        return;
+      }
+      const command = getAvailableCommands().find(
+        (candidate) => getBinding(candidate.id) === binding
+      );
+      if (!command) {
+        return;
+      }
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      if (event.repeat) {
+        return;
+      }
+      if (command.needsPage) {
+        beforePageCommand?.();
+      }
+      runCommand(command);
+    },
+    { capture: true }
+  );
+}
+
+export function setupShortcuts(): void {
+  void loadBindingOverrides();
+  listenForShortcuts(window);
+}
@@ -0,0 +1,212 @@
+import { createCaretMenu, type CaretMenuItem } from "./caretMenu.ts";
+import { getCaretLine, placeCaret, retagLine } from "./editorBlocks.ts";
+
+const SLASH_TRIGGER = /^\/([a-z-]{0,20})$/i;
+
+type SlashTrigger = {
+  line: HTMLElement;
+  range: Range;
+  query: string;
+};
+
+type SlashCommand = CaretMenuItem & {
+  keywords: string[];
+  run(line: HTMLElement): Node;
+};
+
+const formatNow = () => {
+  return new Date().toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+};
+
+const insertAtLineStart = (line: HTMLElement, node: Node) => {
+  if (line.firstChild?.nodeName === "BR") {
+    line.firstChild.remove();
+  }
+  line.prepend(node);
+  return node;
+};
+
+const COMMANDS: SlashCommand[] = [
+  {
+    id: "heading",
+    label: "Heading",
+    hint: "H2",
+    keywords: ["title", "h2", "section"],
+    run: (line) => retagLine(line, "h2"),
+  },
+  {
+    id: "checklist",
+    label: "Checklist",
+    hint: "[ ]",
+    keywords: ["todo", "task", "checkbox"],
+    run: (line) => retagLine(line, "div", { "data-task": "todo" }),
+  },
+  {
+    id: "divider",
+    label: "Divider",
+    hint: "---",
+    keywords: ["hr", "line", "separator", "rule"],
+    run: (line) => {
+      line.before(line.ownerDocument.createElement("hr"));
+      if (!line.firstChild) {
+        line.innerHTML = "<br>";
+      }
+      return line;
+    },
+  },
+  {
+    id: "code",
+    label: "Code block",
+    hint: "```",
+    keywords: ["pre", "snippet", "monospace"],
+    run: (line) => retagLine(line, "pre"),
+  },
+  {
+    id: "date",
+    label: "Date and time",
+    keywords: ["now", "today", "time", "timestamp"],
+    run: (line) => {
+      const text = line.ownerDocument.createTextNode(`${formatNow()} `);
+      insertAtLineStart(line, text);
+      return text;
+    },
+  },
+  {
+    id: "link",
+    label: "Link to note",
+    hint: "[[",
+    keywords: ["note", "wiki", "reference"],
+    run: (line) => {
+      // Hands over to the `[[` picker, which opens on the next input event.
+      const text = line.ownerDocument.createTextNode("[[");
+      insertAtLineStart(line, text);
+      return text;
+    },
+  },
+];
+
+const filterCommands = (query: string) => {
+  if (!query) {
+    return COMMANDS;
+  }
+  const matches = (value: string) => value.toLowerCase().startsWith(query);
+  return COMMANDS.filter(
+    (command) =>
+      command.label.toLowerCase().split(" ").some(matches) ||
+      command.keywords.some(matches)
+  );
+};
+
+const findTrigger = (noteElement: HTMLDivElement): SlashTrigger | null => {
+  const ownerDocument = noteElement.ownerDocument ?? document;
+  const selection = ownerDocument.getSelection();
+  if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) {
+    return null;
+  }
+  const { anchorNode, anchorOffset } = selection;
+  if (anchorNode?.nodeType !== Node.TEXT_NODE) {
+    return null;
+  }
+  const line = getCaretLine(noteElement, anchorNode);
+  if (!line || line.matches("pre, hr, ul, ol")) {
+    return null;
+  }
+  const range = ownerDocument.createRange();
+  range.setStart(line, 0);
+  range.setEnd(anchorNode, anchorOffset);
+  const match = range.toString().match(SLASH_TRIGGER);
+  if (!match) {
+    return null;
+  }
+  return { line, range, query: match[1].toLowerCase() };
+};
+
+/**
+ * Typing `/` at the start of a line opens a menu of blocks to insert. The
+ * command replaces the slash and whatever was typed after it.
+ */
+export function setupSlashCommands(noteElement: HTMLDivElement): void {
+  let trigger: SlashTrigger | null = null;
+  // Escape keeps the menu closed until the slash is gone.
+  let dismissed = false;
+
+  const runCommand = (item: CaretMenuItem) => {
+    const command = COMMANDS.find((candidate) => candidate.id === item.id);
+    if (!trigger || !command) {
+      return;
+    }
+    const { line, range } = trigger;
+    trigger = null;
+    range.deleteContents();
+    line.normalize();
+
+    const target = command.run(line);
+    placeCaret(noteElement.ownerDocument ?? document, (range) => {
+      // Inside the text node, so triggers like `[[` see it at the caret.
+      if (target.nodeType === Node.TEXT_NODE) {
+        range.setStart(target, (target as Text).length);
+      } else {
+        range.setStart(target, 0);
+      }
+    });
+
+    noteElement.dispatchEvent(new InputEvent("input", { bubbles: true }));
+  };
+
+  const menu = createCaretMenu(noteElement, {
+    ariaLabel: "Insert block",
+    onSelect: runCommand,
+  });
+
+  const updateMenu = () => {
+    trigger = findTrigger(noteElement);
+    if (!trigger) {
+      dismissed = false;
+      menu.hide();
+      return;
+    }
+    if (dismissed) {
+      return;
+    }
+    const hintFor = (command: SlashCommand) =>
+      command.id === "date" ? formatNow() : command.hint;
+    menu.show(
+      filterCommands(trigger.query).map((command) => ({
+        id: command.id,
+        label: command.label,
+        hint: hintFor(command),
+      })),
+      trigger.range
+    );
+  };
+
+  noteElement.addEventListener("input", (event) => {
+    if ((event as InputEvent).isComposing) {
+      return;
+    }
+    updateMenu();
+  });
+
+  noteElement.addEventListener("keydown", (event) => {
+    if (menu.handleKeydown(event)) {
+      dismissed = event.key === "Escape";
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  });
+
+  const refreshWhenOpen = () => {
+    if (menu.isOpen()) {
+      updateMenu();
+    }
+  };
+  noteElement.addEventListener("keyup", (event) => {
+    if (event.key === "ArrowLeft" || event.key === "ArrowRight") {
+      refreshWhenOpen();
+    }
+  });
+  noteElement.addEventListener("click", refreshWhenOpen);
+}
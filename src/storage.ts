@@ -1,5 +1,13 @@
 import localforage from "localforage";
-import { DATABASE_NAME, TABLE_NOTE_NAME } from "./constants";
+import {
+  DATABASE_NAME,
+  TABLE_HISTORY_NAME,
+  TABLE_IMAGES_NAME,
+  TABLE_LINKS_NAME,
+  TABLE_NOTE_NAME,
+  TABLE_SEARCH_NAME,
+  TABLE_TRASH_NAME,
+} from "./constants";
 
 const storage = localforage.createInstance({
   name: DATABASE_NAME,
@@ -7,4 +15,34 @@ const storage = localforage.createInstance({
   description: "Draft Note persistent storage",
 });
 
+export const historyStorage = localforage.createInstance({
+  name: DATABASE_NAME,
+  storeName: TABLE_HISTORY_NAME,
+  description: "Draft Note version history",
+});
+
+export const searchStorage = localforage.createInstance({
+  name: DATABASE_NAME,
+  storeName: TABLE_SEARCH_NAME,
+  description: "Draft Note full-text search index",
+});
+
+export const linkStorage = localforage.createInstance({
+  name: DATABASE_NAME,
+  storeName: TABLE_LINKS_NAME,
+  description: "Draft Note links between notes",
+});
+
+export const trashStorage = localforage.createInstance({
+  name: DATABASE_NAME,
+  storeName: TABLE_TRASH_NAME,
+  description: "Draft Note deleted notes",
+});
+
+export const imageStorage = localforage.createInstance({
+  name: DATABASE_NAME,
+  storeName: TABLE_IMAGES_NAME,
+  description: "Draft Note pasted images",
+});
+
 export default storage;
@@ -0,0 +1,252 @@
+import { createBottomSheet } from "@plainsheet/core";
+import type { NoteSync } from "./note.ts";
+import { registerCommand } from "./shortcuts.ts";
+import { showToast } from "./toast.ts";
+import { getNoteUrl } from "./utils/noteUrl.ts";
+import { onStorageWriteFailure } from "./utils/storageFailures.ts";
+import {
+  STORAGE_WARNING_RATIO,
+  estimateStorage,
+  formatBytes,
+  isStoragePersisted,
+  loadNoteSizes,
+  requestPersistentStorage,
+  type NoteSize,
+} from "./utils/storageHealth.ts";
+
+type StorageSheetOptions = {
+  noteSync: NoteSync;
+  beforeOpen?: () => void;
+};
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Storage">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Storage</h2>
+      <button type="button" class="note-sheet__close" data-storage="close" aria-label="Close storage"></button>
+    </header>
+    <p class="note-sheet__intro" data-storage="usage"></p>
+    <div class="note-storage-meter" data-storage="meter" hidden>
+      <span class="note-storage-meter__fill" data-storage="meter-fill"></span>
+    </div>
+    <p class="note-sheet__intro" data-storage="persistence"></p>
+    <p class="note-sheet__warning" data-storage="warning" hidden></p>
+    <div class="note-sheet__body">
+      <div data-storage="list"></div>
+    </div>
+    <p class="note-sheet__hint" data-storage="status" role="status" aria-live="polite"></p>
+    <footer class="note-sheet__footer">
+      <button type="button" class="note-sheet__button" data-storage="persist" hidden>Keep notes on this device</button>
+    </footer>
+  </section>
+`;
+
+const FAILURE_TOAST_DURATION_MS = 15000;
+// Leave startup to the note itself before asking for an estimate.
+const USAGE_CHECK_DELAY_MS = 10000;
+
+/**
+ * Shows how much space notes take up and asks the browser to keep them.
+ * Failed saves are surfaced as a toast with a retry, and a nearly full
+ * quota is pointed out shortly after startup.
+ */
+export function setupStorageSheet(
+  trigger: HTMLButtonElement,
+  { noteSync, beforeOpen }: StorageSheetOptions
+): boolean {
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Storage",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Storage sheet content wrapper not found.");
+    return false;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-storage='${name}']`);
+
+  const usage = query<HTMLElement>("usage");
+  const meter = query<HTMLElement>("meter");
+  const meterFill = query<HTMLElement>("meter-fill");
+  const persistence = query<HTMLElement>("persistence");
+  const listContainer = query<HTMLElement>("list");
+  const persistButton = query<HTMLButtonElement>("persist");
+  const warning = query<HTMLElement>("warning");
+  const status = query<HTMLElement>("status");
+  if (!usage || !persistence || !listContainer || !persistButton) {
+    console.warn("Storage sheet elements are missing.");
+    return false;
+  }
+
+  let renderSequence = 0;
+
+  const setStatus = (message: string) => {
+    if (status) {
+      status.textContent = message;
+    }
+  };
+
+  const hideWarning = () => {
+    if (!warning) return;
+    warning.hidden = true;
+    warning.textContent = "";
+  };
+
+  const showWarning = (message: string) => {
+    if (!warning) return;
+    warning.textContent = message;
+    warning.hidden = false;
+  };
+
+  const renderUsage = async () => {
+    const estimate = await estimateStorage();
+    if (!estimate) {
+      usage.textContent = "This browser doesn't report how much space is left.";
+      if (meter) meter.hidden = true;
+      return;
+    }
+    const ratio = Math.min(1, estimate.usage / estimate.quota);
+    usage.textContent = `Using ${formatBytes(estimate.usage)} of ${formatBytes(
+      estimate.quota
+    )} this browser allows.`;
+    if (meter && meterFill) {
+      meter.hidden = false;
+      meterFill.style.width = `${Math.max(ratio * 100, 1)}%`;
+      meter.classList.toggle("is-full", ratio >= STORAGE_WARNING_RATIO);
+    }
+    if (ratio >= STORAGE_WARNING_RATIO) {
+      showWarning(
+        "Storage is almost full. Delete large notes or images, then empty the trash."
+      );
+    }
+  };
+
+  const renderPersistence = async () => {
+    const persisted = await isStoragePersisted();
+    persistence.textContent = persisted
+      ? "Notes stay on this device until you delete them."
+      : "The browser may clear notes when the device runs low on space.";
+    persistButton.hidden = persisted;
+  };
+
+  const createSizeItem = (note: NoteSize) => {
+    const item = document.createElement("li");
+    item.className = "note-backup-list__item";
+
+    const label = document.createElement("span");
+    label.className = "note-backup-list__label";
+
+    const title = document.createElement("a");
+    title.className = "note-card__title note-storage-list__link";
+    title.href = getNoteUrl(note.slug);
+    title.textContent = note.title;
+
+    const meta = document.createElement("span");
+    meta.className = "note-card__meta";
+    meta.textContent = `/${note.slug}`;
+    label.append(title, meta);
+
+    const size = document.createElement("span");
+    size.className = "note-backup-list__badge";
+    size.textContent = formatBytes(note.bytes);
+
+    item.append(label, size);
+    return item;
+  };
+
+  const renderSizes = async () => {
+    const renderId = ++renderSequence;
+    listContainer.innerHTML =
+      '<div class="note-sheet-empty"><p>Measuring notes…</p></div>';
+
+    const sizes = await loadNoteSizes();
+    if (renderId !== renderSequence) {
+      return;
+    }
+    listContainer.innerHTML = "";
+    if (!sizes.length) {
+      const emptyState = document.createElement("div");
+      emptyState.className = "note-sheet-empty";
+      emptyState.innerHTML = "<p>No saved notes yet.</p>";
+      listContainer.appendChild(emptyState);
+      return;
+    }
+
+    const listElement = document.createElement("ul");
+    listElement.className = "note-backup-list";
+    sizes.forEach((note) => {
+      listElement.appendChild(createSizeItem(note));
+    });
+    listContainer.appendChild(listElement);
+  };
+
+  const openSheet = () => {
+    beforeOpen?.();
+    hideWarning();
+    setStatus("");
+    bottomSheet.open();
+    void renderUsage();
+    void renderPersistence();
+    void renderSizes();
+  };
+
+  persistButton.addEventListener("click", async () => {
+    persistButton.disabled = true;
+    const granted = await requestPersistentStorage();
+    persistButton.disabled = false;
+    setStatus(
+      granted
+        ? "Your notes will be kept on this device."
+        : "The browser declined. Installing the app usually helps."
+    );
+    void renderPersistence();
+  });
+
+  query<HTMLButtonElement>("close")?.addEventListener("click", () => {
+    bottomSheet.close();
+  });
+
+  trigger.addEventListener("click", openSheet);
+
+  registerCommand({
+    id: "storage",
+    label: "Show storage usage",
+    keywords: ["quota", "space", "disk", "size"],
+    needsPage: true,
+    run: openSheet,
+  });
+
+  onStorageWriteFailure(({ quotaExceeded }) => {
+    showToast({
+      message: quotaExceeded
+        ? "Storage is full, so your latest changes weren't saved."
+        : "Your latest changes couldn't be saved.",
+      actionLabel: "Retry",
+      onAction: () => noteSync.flush(),
+      durationMs: FAILURE_TOAST_DURATION_MS,
+    });
+  });
+
+  window.setTimeout(async () => {
+    const estimate = await estimateStorage();
+    if (estimate && estimate.usage / estimate.quota >= STORAGE_WARNING_RATIO) {
+      showToast({
+        message: "Storage is almost full.",
+        actionLabel: "Details",
+        onAction: openSheet,
+      });
+    }
+  }, USAGE_CHECK_DELAY_MS);
+
+  return true;
+}
@@ -0,0 +1,153 @@
+import { createBottomSheet } from "@plainsheet/core";
+import type { NoteSync } from "./note.ts";
+import { registerCommand } from "./shortcuts.ts";
+import { showToast } from "./toast.ts";
+import { stripImageSources } from "./utils/imageStore.ts";
+import { saveNoteTemplate } from "./utils/noteTemplates.ts";
+
+type TemplateSheetOptions = {
+  noteElement: HTMLDivElement;
+  noteSync: NoteSync;
+};
+
+export type TemplateSheet = {
+  open(): void;
+};
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Save as template">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Save as template</h2>
+      <button type="button" class="note-sheet__close" data-template="close" aria-label="Close save as template"></button>
+    </header>
+    <p class="note-sheet__intro">New notes can start from this one. Write {{date}}, {{time}} or {{title}} in the note where those should be filled in.</p>
+    <form class="note-sheet__form" data-template="form">
+      <label class="note-sheet__label">
+        <span>Template name</span>
+        <input type="text" autocomplete="off" maxlength="64" data-template="name" />
+        <span class="note-sheet__hint">A template with the same name is replaced.</span>
+      </label>
+      <p class="note-sheet__warning" data-template="warning" hidden></p>
+      <div class="note-sheet__actions">
+        <button type="button" class="note-sheet__button" data-template="cancel">Cancel</button>
+        <button type="submit" class="note-sheet__button note-sheet__button--primary" data-template="submit">Save template</button>
+      </div>
+    </form>
+  </section>
+`;
+
+const MAX_NAME_LENGTH = 64;
+
+/** Saves the open note's markup as a template for new notes. */
+export function setupTemplateSheet({
+  noteElement,
+  noteSync,
+}: TemplateSheetOptions): TemplateSheet | null {
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Save as template",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Template sheet content wrapper not found.");
+    return null;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-template='${name}']`);
+
+  const form = query<HTMLFormElement>("form");
+  const nameInput = query<HTMLInputElement>("name");
+  const warning = query<HTMLElement>("warning");
+  const submitButton = query<HTMLButtonElement>("submit");
+  if (!form || !nameInput || !submitButton) {
+    console.warn("Template sheet form elements are missing.");
+    return null;
+  }
+
+  const hideWarning = () => {
+    if (!warning) return;
+    warning.hidden = true;
+    warning.textContent = "";
+  };
+
+  const showWarning = (message: string) => {
+    if (!warning) return;
+    warning.textContent = message;
+    warning.hidden = false;
+  };
+
+  const getSuggestedName = () => {
+    const firstLine = noteElement.firstElementChild?.textContent ?? "";
+    return firstLine
+      .replace(/\u200b/g, "")
+      .trim()
+      .slice(0, MAX_NAME_LENGTH);
+  };
+
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    hideWarning();
+    const name = nameInput.value.trim();
+    if (!name) {
+      showWarning("Give the template a name.");
+      return;
+    }
+    if (noteSync.encrypted) {
+      showWarning("Private notes can't be saved as templates.");
+      return;
+    }
+    if (!noteElement.textContent?.replace(/\u200b/g, "").trim()) {
+      showWarning("Write something first, then save it as a template.");
+      return;
+    }
+
+    submitButton.disabled = true;
+    const saved = await saveNoteTemplate(
+      name,
+      stripImageSources(noteElement.innerHTML)
+    );
+    submitButton.disabled = false;
+    if (!saved) {
+      showWarning("We couldn't save the template. Please try again.");
+      return;
+    }
+    bottomSheet.close();
+    showToast({ message: `Saved “${name}” as a template.` });
+  });
+
+  const close = () => {
+    bottomSheet.close();
+  };
+  query<HTMLButtonElement>("close")?.addEventListener("click", close);
+  query<HTMLButtonElement>("cancel")?.addEventListener("click", close);
+
+  const open = () => {
+    hideWarning();
+    nameInput.value = getSuggestedName();
+    bottomSheet.open();
+    window.setTimeout(() => {
+      nameInput.focus({ preventScroll: true });
+      nameInput.select();
+    }, 120);
+  };
+
+  registerCommand({
+    id: "save-template",
+    label: "Save note as template",
+    keywords: ["template", "reuse", "boilerplate"],
+    needsPage: true,
+    isAvailable: () => !noteSync.encrypted && !noteSync.locked,
+    run: open,
+  });
+
+  return { open };
+}
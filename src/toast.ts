@@ -0,0 +1,76 @@
+type ToastOptions = {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  durationMs?: number;
+  /** The document to show the toast in, like the mini window's. */
+  ownerDocument?: Document;
+};
+
+const DEFAULT_TOAST_DURATION_MS = 6000;
+
+let toastElement: HTMLElement | null = null;
+let dismissTimeoutId: number | undefined;
+
+const getToastElement = (ownerDocument: Document) => {
+  if (
+    toastElement?.isConnected &&
+    toastElement.ownerDocument === ownerDocument
+  ) {
+    return toastElement;
+  }
+  // Only one toast shows at a time, in whichever window asked last.
+  toastElement?.remove();
+  toastElement = ownerDocument.createElement("div");
+  toastElement.className = "toast";
+  toastElement.setAttribute("role", "status");
+  toastElement.setAttribute("aria-live", "polite");
+  toastElement.hidden = true;
+  ownerDocument.body.appendChild(toastElement);
+  return toastElement;
+};
+
+export function hideToast(): void {
+  window.clearTimeout(dismissTimeoutId);
+  if (toastElement) {
+    toastElement.hidden = true;
+    toastElement.innerHTML = "";
+  }
+}
+
+/**
+ * Shows a short message at the bottom of the page, replacing any toast that
+ * is still visible. The optional action dismisses the toast when clicked.
+ */
+export function showToast({
+  message,
+  actionLabel,
+  onAction,
+  durationMs = DEFAULT_TOAST_DURATION_MS,
+  ownerDocument = document,
+}: ToastOptions): void {
+  // A closed mini window leaves a document without a body behind.
+  const targetDocument = ownerDocument.body ? ownerDocument : document;
+  const toast = getToastElement(targetDocument);
+  hideToast();
+
+  const text = targetDocument.createElement("span");
+  text.className = "toast__message";
+  text.textContent = message;
+  toast.appendChild(text);
+
+  if (actionLabel && onAction) {
+    const action = targetDocument.createElement("button");
+    action.type = "button";
+    action.className = "toast__action";
+    action.textContent = actionLabel;
+    action.addEventListener("click", () => {
+      hideToast();
+      onAction();
+    });
+    toast.appendChild(action);
+  }
+
+  toast.hidden = false;
+  dismissTimeoutId = window.setTimeout(hideToast, durationMs);
+}
@@ -0,0 +1,250 @@
+import { createBottomSheet } from "@plainsheet/core";
+import {
+  TRASH_RETENTION_DAYS,
+  emptyTrash,
+  loadTrash,
+  purgeTrashedNote,
+  restoreTrashedNote,
+  type TrashedNote,
+} from "./utils/noteTrash.ts";
+import { getActiveSlug } from "./utils/noteUrl.ts";
+
+type TrashSheetOptions = {
+  beforeOpen?: () => void;
+};
+
+const SHEET_TEMPLATE = `
+  <section class="note-sheet" aria-label="Trash">
+    <header class="note-sheet__header">
+      <h2 class="note-sheet__title">Trash</h2>
+      <button type="button" class="note-sheet__close" data-trash="close" aria-label="Close trash"></button>
+    </header>
+    <p class="note-sheet__intro">Deleted notes stay here for ${TRASH_RETENTION_DAYS} days before they are removed for good.</p>
+    <div class="note-sheet__body">
+      <div data-trash="list"></div>
+    </div>
+    <p class="note-sheet__warning" data-trash="warning" hidden></p>
+    <p class="note-sheet__hint" data-trash="status" role="status" aria-live="polite"></p>
+    <footer class="note-sheet__footer">
+      <button type="button" class="note-sheet__button" data-trash="empty" disabled>Empty trash</button>
+    </footer>
+  </section>
+`;
+
+const EMPTY_CONFIRM_TIMEOUT_MS = 4000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDeletedAt = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+};
+
+const formatRemainingDays = (expiresAt: number) => {
+  const days = Math.max(1, Math.ceil((expiresAt - Date.now()) / DAY_MS));
+  return days === 1 ? "Removed tomorrow" : `Removed in ${days} days`;
+};
+
+export function setupTrashSheet(
+  trigger: HTMLButtonElement,
+  { beforeOpen }: TrashSheetOptions = {}
+): boolean {
+  const bottomSheet = createBottomSheet({
+    ariaLabel: "Trash",
+    shouldShowBackdrop: true,
+    shouldShowHandle: false,
+    rootClass: "note-sheet-root",
+    containerClass: "note-sheet-container",
+    contentWrapperClass: "note-sheet-content",
+    backdropClass: "note-sheet-backdrop",
+    content: SHEET_TEMPLATE,
+  });
+  bottomSheet.mount();
+
+  const contentWrapper = bottomSheet.elements.bottomSheetContentWrapper;
+  if (!(contentWrapper instanceof HTMLElement)) {
+    console.warn("Trash sheet content wrapper not found.");
+    return false;
+  }
+
+  const query = <T extends HTMLElement>(name: string) =>
+    contentWrapper.querySelector<T>(`[data-trash='${name}']`);
+
+  const listContainer = query<HTMLElement>("list");
+  const emptyButton = query<HTMLButtonElement>("empty");
+  const warning = query<HTMLElement>("warning");
+  const status = query<HTMLElement>("status");
+  if (!listContainer || !emptyButton) {
+    console.warn("Trash sheet elements are missing.");
+    return false;
+  }
+
+  let renderSequence = 0;
+  let emptyConfirmTimeoutId: number | undefined;
+
+  const setStatus = (message: string) => {
+    if (status) {
+      status.textContent = message;
+    }
+  };
+
+  const hideWarning = () => {
+    if (!warning) return;
+    warning.hidden = true;
+    warning.textContent = "";
+  };
+
+  const showWarning = (message: string) => {
+    if (!warning) return;
+    warning.textContent = message;
+    warning.hidden = false;
+  };
+
+  const resetEmptyButton = () => {
+    window.clearTimeout(emptyConfirmTimeoutId);
+    emptyConfirmTimeoutId = undefined;
+    emptyButton.textContent = "Empty trash";
+  };
+
+  const createEntryItem = (entry: TrashedNote) => {
+    const item = document.createElement("li");
+    item.className = "note-backup-list__item";
+
+    const label = document.createElement("span");
+    label.className = "note-backup-list__label";
+
+    const title = document.createElement("span");
+    title.className = "note-card__title";
+    title.textContent = entry.title || entry.slug;
+
+    const meta = document.createElement("span");
+    meta.className = "note-card__meta";
+    meta.textContent = `${formatDeletedAt(
+      entry.deletedAt
+    )} · ${formatRemainingDays(entry.expiresAt)}`;
+
+    label.append(title, meta);
+
+    const actions = document.createElement("span");
+    actions.className = "note-trash-list__actions";
+
+    const restoreButton = document.createElement("button");
+    restoreButton.type = "button";
+    restoreButton.className = "note-sheet__button";
+    restoreButton.textContent = "Restore";
+    restoreButton.addEventListener("click", async () => {
+      restoreButton.disabled = true;
+      hideWarning();
+      try {
+        const slug = await restoreTrashedNote(entry.id);
+        if (!slug) {
+          showWarning("This note is no longer in the trash.");
+        } else if (slug === getActiveSlug()) {
+          window.location.reload();
+          return;
+        } else if (slug !== entry.slug) {
+          setStatus(`Restored “${title.textContent}” as /${slug}.`);
+        } else {
+          setStatus(`Restored “${title.textContent}”.`);
+        }
+      } catch (error) {
+        console.error(`Unable to restore trashed note "${entry.slug}"`, error);
+        showWarning("We couldn't restore this note. Please try again.");
+      }
+      void renderTrash();
+    });
+
+    const purgeButton = document.createElement("button");
+    purgeButton.type = "button";
+    purgeButton.className = "note-sheet__button";
+    purgeButton.textContent = "Delete forever";
+    purgeButton.setAttribute(
+      "aria-label",
+      `Delete ${entry.title || entry.slug} forever`
+    );
+    purgeButton.addEventListener("click", async () => {
+      purgeButton.disabled = true;
+      hideWarning();
+      try {
+        await purgeTrashedNote(entry.id);
+        setStatus(`Deleted “${title.textContent}” forever.`);
+      } catch (error) {
+        console.error(`Unable to purge trashed note "${entry.slug}"`, error);
+        showWarning("We couldn't delete this note. Please try again.");
+      }
+      void renderTrash();
+    });
+
+    actions.append(restoreButton, purgeButton);
+    item.append(label, actions);
+    return item;
+  };
+
+  const renderTrash = async () => {
+    const renderId = ++renderSequence;
+    listContainer.innerHTML =
+      '<div class="note-sheet-empty"><p>Loading…</p></div>';
+
+    const entries = await loadTrash();
+    if (renderId !== renderSequence) {
+      return;
+    }
+
+    listContainer.innerHTML = "";
+    resetEmptyButton();
+    emptyButton.disabled = entries.length === 0;
+
+    if (!entries.length) {
+      const emptyState = document.createElement("div");
+      emptyState.className = "note-sheet-empty";
+      emptyState.innerHTML = "<p>The trash is empty.</p>";
+      listContainer.appendChild(emptyState);
+      return;
+    }
+
+    const listElement = document.createElement("ul");
+    listElement.className = "note-backup-list";
+    entries.forEach((entry) => {
+      listElement.appendChild(createEntryItem(entry));
+    });
+    listContainer.appendChild(listElement);
+  };
+
+  emptyButton.addEventListener("click", async () => {
+    // The first click arms the button so a stray tap can't purge everything.
+    if (emptyConfirmTimeoutId === undefined) {
+      emptyButton.textContent = "Tap again to empty";
+      emptyConfirmTimeoutId = window.setTimeout(
+        resetEmptyButton,
+        EMPTY_CONFIRM_TIMEOUT_MS
+      );
+      return;
+    }
+    resetEmptyButton();
+    emptyButton.disabled = true;
+    hideWarning();
+    try {
+      await emptyTrash();
+      setStatus("The trash was emptied.");
+    } catch (error) {
+      console.error("Unable to empty the trash", error);
+      showWarning("We couldn't empty the trash. Please try again.");
+    }
+    void renderTrash();
+  });
+
+  query<HTMLButtonElement>("close")?.addEventListener("click", () => {
+    bottomSheet.close();
+  });
+
+  trigger.addEventListener("click", () => {
+    beforeOpen?.();
+    hideWarning();
+    setStatus("");
+    bottomSheet.open();
+    void renderTrash();
+  });
+
+  return true;
+}
@@ -0,0 +1,76 @@
+import { showToast } from "./toast.ts";
+import {
+  findTrashedNote,
+  restoreTrashedNote,
+  type RestoreTrashedNoteOptions,
+  type TrashedNote,
+} from "./utils/noteTrash.ts";
+import { getNoteLocation } from "./utils/noteUrl.ts";
+
+const TRASHED_NOTE_PARAM = "trashed";
+
+/**
+ * Where to go after trashing the open note. The next page load picks the
+ * id up again and offers to undo the deletion.
+ */
+export function getTrashedNoteLocation(id: string): string {
+  return `/?${TRASHED_NOTE_PARAM}=${encodeURIComponent(id)}`;
+}
+
+type TrashUndoOptions = RestoreTrashedNoteOptions & {
+  /** Runs when Undo is picked, before the note is written back. */
+  beforeRestore?: () => void;
+  /** Where to show the toast, for notes trashed from the mini window. */
+  ownerDocument?: Document;
+};
+
+export function showTrashUndoToast(
+  trashed: TrashedNote,
+  onRestored: (slug: string) => void,
+  { beforeRestore, ownerDocument, ...restoreOptions }: TrashUndoOptions = {}
+): void {
+  showToast({
+    message: `Moved “${trashed.title}” to the trash.`,
+    actionLabel: "Undo",
+    ownerDocument,
+    onAction: () => {
+      beforeRestore?.();
+      void restoreTrashedNote(trashed.id, restoreOptions)
+        .then((slug) => {
+          if (!slug) {
+            showToast({
+              message: "This note is no longer in the trash.",
+              ownerDocument,
+            });
+            return;
+          }
+          onRestored(slug);
+        })
+        .catch((error) => {
+          console.error(`Unable to restore note "${trashed.slug}"`, error);
+          showToast({
+            message: "We couldn't restore this note.",
+            ownerDocument,
+          });
+        });
+    },
+  });
+}
+
+/** Offers the undo toast for a note that was trashed before navigating here. */
+export async function setupTrashUndo(): Promise<void> {
+  const url = new URL(window.location.href);
+  const id = url.searchParams.get(TRASHED_NOTE_PARAM);
+  if (!id) {
+    return;
+  }
+  url.searchParams.delete(TRASHED_NOTE_PARAM);
+  window.history.replaceState(null, "", `${url.pathname}${url.search}`);
+
+  const trashed = await findTrashedNote(id);
+  if (trashed) {
+    showTrashUndoToast(trashed, (slug) => {
+      window.location.assign(getNoteLocation(slug));
+    });
+  }
+}
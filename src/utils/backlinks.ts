@@ -0,0 +1,152 @@
+import { NOTE_INDEX_STORAGE_KEY, NOTE_KEY_PREFIX } from "../constants.ts";
+import storage, { linkStorage } from "../storage.ts";
+import { getNoteUrl, getSlugFromNoteUrl } from "./noteUrl.ts";
+import { isEncryptedValue } from "./noteCrypto.ts";
+import { loadNoteMetadataMap } from "./noteMetadata.ts";
+import { decodeStoredValue } from "./noteStorage.ts";
+
+/**
+ * Lists the notes a piece of markup links to, in order of appearance and
+ * without the note itself.
+ */
+export function extractNoteLinks(markup: string, ownSlug?: string): string[] {
+  if (!markup) {
+    return [];
+  }
+  const scratch = document.createElement("div");
+  scratch.innerHTML = markup;
+  const targets = new Set<string>();
+  scratch.querySelectorAll<HTMLAnchorElement>("a[href]").forEach((anchor) => {
+    const target = getSlugFromNoteUrl(anchor.getAttribute("href") ?? "");
+    if (target && target !== ownSlug) {
+      targets.add(target);
+    }
+  });
+  return Array.from(targets);
+}
+
+/**
+ * Points every link to `from` at `to`. Labels generated from the old key,
+ * like "Note @from", follow along; custom labels are kept.
+ */
+export function rewriteNoteLinks(
+  markup: string,
+  from: string,
+  to: string
+): string {
+  const scratch = document.createElement("div");
+  scratch.innerHTML = markup;
+  let changed = false;
+  scratch.querySelectorAll<HTMLAnchorElement>("a[href]").forEach((anchor) => {
+    if (getSlugFromNoteUrl(anchor.getAttribute("href") ?? "") !== from) {
+      return;
+    }
+    anchor.setAttribute("href", getNoteUrl(to));
+    if (anchor.textContent === `Note @${from}`) {
+      anchor.textContent = `Note @${to}`;
+    }
+    changed = true;
+  });
+  return changed ? scratch.innerHTML : markup;
+}
+
+const parseTargets = (value: unknown): string[] | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) {
+      return null;
+    }
+    return parsed.filter((target): target is string => {
+      return typeof target === "string";
+    });
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Stores the outgoing links of a note. Notes without links keep an empty
+ * entry so they are not rescanned.
+ */
+export async function indexNoteLinks(
+  slug: string,
+  markup: string
+): Promise<void> {
+  try {
+    await linkStorage.setItem(
+      slug,
+      JSON.stringify(extractNoteLinks(markup, slug))
+    );
+  } catch (error) {
+    console.error(`Unable to index links of note "${slug}"`, error);
+  }
+}
+
+export async function removeNoteLinks(slug: string): Promise<void> {
+  try {
+    await linkStorage.removeItem(slug);
+  } catch (error) {
+    console.error(`Unable to remove links of note "${slug}"`, error);
+  }
+}
+
+/**
+ * Scans notes that were saved before links were indexed. Private notes are
+ * left out, like in the search index, and any links an earlier scan kept
+ * for them are dropped.
+ */
+async function ensureLinksIndexed(indexed: Set<string>): Promise<void> {
+  const metadataMap = await loadNoteMetadataMap();
+  const keys = await storage.keys();
+  for (const key of keys) {
+    if (key === NOTE_INDEX_STORAGE_KEY || !key.startsWith(NOTE_KEY_PREFIX)) {
+      continue;
+    }
+    const slug = key.slice(NOTE_KEY_PREFIX.length);
+    if (!slug) {
+      continue;
+    }
+    if (metadataMap[slug]?.encrypted) {
+      if (indexed.has(slug)) {
+        await removeNoteLinks(slug);
+      }
+      continue;
+    }
+    if (indexed.has(slug)) {
+      continue;
+    }
+    const rawValue = await storage.getItem<string>(key);
+    if (rawValue === null || isEncryptedValue(rawValue)) {
+      continue;
+    }
+    await indexNoteLinks(slug, decodeStoredValue(rawValue));
+  }
+}
+
+let hasCheckedLegacyNotes = false;
+
+/** Slugs of the notes that link to `slug`. */
+export async function loadBacklinks(slug: string): Promise<string[]> {
+  const sources: string[] = [];
+  const indexed = new Set<string>();
+  try {
+    if (!hasCheckedLegacyNotes) {
+      await linkStorage.iterate<unknown, void>((_value, source) => {
+        indexed.add(source);
+      });
+      await ensureLinksIndexed(indexed);
+      hasCheckedLegacyNotes = true;
+    }
+    await linkStorage.iterate<unknown, void>((value, source) => {
+      if (source !== slug && parseTargets(value)?.includes(slug)) {
+        sources.push(source);
+      }
+    });
+  } catch (error) {
+    console.error(`Unable to read links to note "${slug}"`, error);
+  }
+  return sources;
+}
@@ -0,0 +1,183 @@
+import { IMAGE_ID_ATTRIBUTE, stripImageSources } from "./imageStore.ts";
+import { noteHtmlToMarkdown } from "./markdown.ts";
+
+export type CopyFormat = "rich" | "plain" | "markdown" | "html";
+
+export const COPY_FORMAT_LABELS: Record<CopyFormat, string> = {
+  rich: "Rich text",
+  plain: "Plain text",
+  markdown: "Markdown",
+  html: "HTML source",
+};
+
+// Chromium only takes custom clipboard types under the `web ` prefix.
+const MARKDOWN_CLIPBOARD_TYPE = "web text/markdown";
+
+const BLOCK_TAGS = new Set([
+  "DIV",
+  "P",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "BLOCKQUOTE",
+  "PRE",
+  "UL",
+  "OL",
+  "LI",
+  "HR",
+]);
+
+const TASK_MARKERS: Record<string, { plain: string; rich: string }> = {
+  todo: { plain: "[ ] ", rich: "☐ " },
+  done: { plain: "[x] ", rich: "☑ " },
+};
+
+const breakLine = (parts: string[]) => {
+  if (parts.length && !parts[parts.length - 1].endsWith("\n")) {
+    parts.push("\n");
+  }
+};
+
+const getListMarker = (item: Element) => {
+  const list = item.parentElement;
+  let depth = 0;
+  for (
+    let ancestor = list?.parentElement;
+    ancestor;
+    ancestor = ancestor.parentElement
+  ) {
+    if (ancestor.tagName === "UL" || ancestor.tagName === "OL") {
+      depth += 1;
+    }
+  }
+  const indent = "  ".repeat(depth);
+  if (list?.tagName !== "OL") {
+    return `${indent}- `;
+  }
+  const position = Array.from(list.children)
+    .filter((child) => child.tagName === "LI")
+    .indexOf(item);
+  return `${indent}${position + 1}. `;
+};
+
+const appendPlainText = (node: Node, parts: string[]) => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    parts.push((node.textContent ?? "").replace(/\u200b/g, ""));
+    return;
+  }
+  if (!(node instanceof Element) || node.tagName === "IMG") {
+    return;
+  }
+  if (node.tagName === "BR") {
+    parts.push("\n");
+    return;
+  }
+
+  const isBlock = BLOCK_TAGS.has(node.tagName);
+  if (isBlock) {
+    breakLine(parts);
+  }
+  if (node.tagName === "HR") {
+    parts.push("---\n");
+    return;
+  }
+  if (node.tagName === "LI") {
+    parts.push(getListMarker(node));
+  }
+  const task = TASK_MARKERS[node.getAttribute("data-task") ?? ""];
+  if (task) {
+    parts.push(task.plain);
+  }
+  node.childNodes.forEach((child) => appendPlainText(child, parts));
+  if (isBlock) {
+    breakLine(parts);
+  }
+};
+
+/** Note markup as text, one line per block, with list and task markers. */
+export function noteHtmlToPlainText(markup: string): string {
+  const scratch = document.createElement("div");
+  scratch.innerHTML = markup;
+  const parts: string[] = [];
+  scratch.childNodes.forEach((node) => appendPlainText(node, parts));
+  return parts.join("").replace(/^\n+/, "").replace(/\s+$/, "");
+}
+
+/**
+ * Markup for other apps: stored pictures only resolve inside this app, so
+ * they are left out, and checklist items get a box character since their
+ * checkbox is drawn by the note's stylesheet.
+ */
+export function prepareClipboardMarkup(markup: string): string {
+  const scratch = document.createElement("div");
+  scratch.innerHTML = stripImageSources(markup);
+  scratch
+    .querySelectorAll(`img[${IMAGE_ID_ATTRIBUTE}]`)
+    .forEach((image) => image.remove());
+  scratch.querySelectorAll("[contenteditable]").forEach((element) => {
+    element.removeAttribute("contenteditable");
+  });
+  scratch.querySelectorAll("[data-task]").forEach((element) => {
+    const task = TASK_MARKERS[element.getAttribute("data-task") ?? ""];
+    if (task) {
+      element.prepend(task.rich);
+    }
+    element.removeAttribute("data-task");
+  });
+  return scratch.innerHTML;
+}
+
+const supportsClipboardType = (type: string) => {
+  return (
+    typeof ClipboardItem !== "undefined" &&
+    typeof ClipboardItem.supports === "function" &&
+    ClipboardItem.supports(type)
+  );
+};
+
+/**
+ * Writes note markup to the clipboard. Rich text carries HTML, plain text
+ * and, where the browser allows it, Markdown, so each app pastes the best
+ * one it understands. Resolves with false when the browser refused.
+ */
+export async function copyNoteMarkup(
+  markup: string,
+  format: CopyFormat
+): Promise<boolean> {
+  const html = prepareClipboardMarkup(markup);
+  // Plain text and Markdown read checklists from the original markup.
+  const source = stripImageSources(markup);
+  try {
+    if (format === "rich" && typeof ClipboardItem !== "undefined") {
+      const items: Record<string, Blob> = {
+        "text/html": new Blob([html], { type: "text/html" }),
+        "text/plain": new Blob([noteHtmlToPlainText(source)], {
+          type: "text/plain",
+        }),
+      };
+      if (supportsClipboardType(MARKDOWN_CLIPBOARD_TYPE)) {
+        items[MARKDOWN_CLIPBOARD_TYPE] = new Blob(
+          [noteHtmlToMarkdown(source)],
+          { type: "text/markdown" }
+        );
+      }
+      await navigator.clipboard.write([new ClipboardItem(items)]);
+      return true;
+    }
+
+    const text =
+      format === "markdown"
+        ? noteHtmlToMarkdown(source)
+        : format === "html"
+          ? html
+          : noteHtmlToPlainText(source);
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (error) {
+    console.error(`Unable to copy note as ${format}`, error);
+    return false;
+  }
+}
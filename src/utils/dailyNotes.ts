@@ -0,0 +1,121 @@
+import { DAILY_NOTE_TEMPLATE_STORAGE_KEY } from "../constants.ts";
+import storage from "../storage.ts";
+import { loadNoteMetadataMap } from "./noteMetadata.ts";
+import { getNoteStorageKey, writeStoredValue } from "./noteStorage.ts";
+import { expandTemplate, loadNoteTemplates } from "./noteTemplates.ts";
+import { doesSlugExist } from "./slug.ts";
+
+/**
+ * Daily notes are ordinary notes under a dated slug such as
+ * `daily-2026-10-19`, using the local calendar day.
+ */
+const DAILY_NOTE_PREFIX = "daily-";
+const DAILY_NOTE_PATTERN = /^daily-(\d{4})-(\d{2})-(\d{2})$/;
+
+const padNumber = (value: number) => String(value).padStart(2, "0");
+
+/** `YYYY-MM-DD` of the local day. */
+export function formatDayKey(date: Date): string {
+  return `${date.getFullYear()}-${padNumber(date.getMonth() + 1)}-${padNumber(
+    date.getDate()
+  )}`;
+}
+
+export function getDailyNoteSlug(date: Date = new Date()): string {
+  return `${DAILY_NOTE_PREFIX}${formatDayKey(date)}`;
+}
+
+/** The day a daily note belongs to, or null for any other slug. */
+export function parseDailyNoteSlug(slug: string): Date | null {
+  const match = slug.match(DAILY_NOTE_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  // Rejects days that roll over, such as the 31st of April.
+  return formatDayKey(date) === slug.slice(DAILY_NOTE_PREFIX.length)
+    ? date
+    : null;
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+export function formatDailyNoteTitle(date: Date): string {
+  return date.toLocaleDateString(undefined, {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+/** Day keys of the daily notes in the metadata index. */
+export async function loadDailyNoteDays(): Promise<Set<string>> {
+  const metadataMap = await loadNoteMetadataMap();
+  const days = new Set<string>();
+  Object.keys(metadataMap).forEach((slug) => {
+    const date = parseDailyNoteSlug(slug);
+    if (date) {
+      days.add(formatDayKey(date));
+    }
+  });
+  return days;
+}
+
+/** Id of the template new daily notes start from; empty for a blank note. */
+export async function loadDailyNoteTemplateId(): Promise<string> {
+  try {
+    const stored = await storage.getItem<string>(
+      DAILY_NOTE_TEMPLATE_STORAGE_KEY
+    );
+    return typeof stored === "string" ? stored : "";
+  } catch (error) {
+    console.error("Unable to read daily note template preference", error);
+    return "";
+  }
+}
+
+export async function saveDailyNoteTemplateId(id: string): Promise<void> {
+  try {
+    if (id) {
+      await storage.setItem(DAILY_NOTE_TEMPLATE_STORAGE_KEY, id);
+    } else {
+      await storage.removeItem(DAILY_NOTE_TEMPLATE_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Unable to persist daily note template preference", error);
+  }
+}
+
+/**
+ * Fills a missing daily note from the chosen template, so the note page
+ * opens it like any other stored note. Resolves with the slug, or null when
+ * the template could not be written.
+ */
+export async function prepareDailyNote(date: Date): Promise<string | null> {
+  const slug = getDailyNoteSlug(date);
+  const templateId = await loadDailyNoteTemplateId();
+  if (!templateId || (await doesSlugExist(slug))) {
+    return slug;
+  }
+
+  const templates = await loadNoteTemplates();
+  const template = templates.find((candidate) => candidate.id === templateId);
+  if (!template) {
+    return slug;
+  }
+
+  // Placeholders get the note's day along with the current time.
+  const now = new Date();
+  now.setFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+  const content = expandTemplate(template.content, {
+    title: formatDailyNoteTitle(date),
+    now,
+  });
+  return (await writeStoredValue(getNoteStorageKey(slug), content))
+    ? slug
+    : null;
+}
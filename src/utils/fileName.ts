@@ -0,0 +1,13 @@
+export function createExportFileName(
+  extension: string,
+  baseTitle = document.title || "note"
+): string {
+  const normalisedBase =
+    baseTitle
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "note";
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return `${normalisedBase}-${timestamp}.${extension}`;
+}
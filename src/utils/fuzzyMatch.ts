@@ -0,0 +1,46 @@
+const isWordStart = (text: string, index: number) => {
+  return index === 0 || /[\s\-_/.]/.test(text[index - 1]);
+};
+
+/**
+ * Scores how well `query` matches `text` when its characters appear in
+ * order, not necessarily next to each other. Runs of adjacent characters
+ * and matches at word starts score higher. Returns null when some query
+ * character is missing.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  const haystack = text.toLowerCase();
+  if (!needle) {
+    return 0;
+  }
+
+  let score = 0;
+  let searchFrom = 0;
+  let previousIndex = -2;
+  for (const character of needle) {
+    const index = haystack.indexOf(character, searchFrom);
+    if (index === -1) {
+      return null;
+    }
+    score += 1;
+    if (index === previousIndex + 1) {
+      score += 3;
+    }
+    if (isWordStart(haystack, index)) {
+      score += 2;
+    }
+    previousIndex = index;
+    searchFrom = index + 1;
+  }
+  // Picking the first occurrence of each character can miss a contiguous
+  // match further along, as in "note" against "New note".
+  const substringIndex = haystack.indexOf(needle);
+  if (substringIndex !== -1) {
+    const substringScore =
+      needle.length * 4 + (isWordStart(haystack, substringIndex) ? 2 : 0);
+    score = Math.max(score, substringScore);
+  }
+  // Prefer shorter texts when everything else is equal.
+  return score - haystack.length * 0.01;
+}
@@ -0,0 +1,38 @@
+export type HashtagMatch = {
+  tag: string;
+  start: number;
+  end: number;
+};
+
+// A tag starts after whitespace or punctuation (not inside words, entities or
+// URL fragments) and must contain a letter, so "#42" stays a plain number.
+const HASHTAG_PATTERN =
+  /(?<![\p{L}\p{N}_&#/])#([\p{L}\p{N}_]+(?:-[\p{L}\p{N}_]+)*)/gu;
+const LETTER_PATTERN = /\p{L}/u;
+
+export function normalizeHashtag(tag: string): string {
+  return tag.replace(/^#/, "").toLocaleLowerCase();
+}
+
+export function findHashtags(text: string): HashtagMatch[] {
+  const matches: HashtagMatch[] = [];
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const [fullMatch, tag] = match;
+    if (!LETTER_PATTERN.test(tag)) {
+      continue;
+    }
+    const start = match.index ?? 0;
+    matches.push({
+      tag: normalizeHashtag(tag),
+      start,
+      end: start + fullMatch.length,
+    });
+  }
+  return matches;
+}
+
+/** Unique, lowercased tags of a note's plain text in alphabetical order. */
+export function extractHashtags(text: string): string[] {
+  const tags = new Set(findHashtags(text).map((match) => match.tag));
+  return Array.from(tags).sort((a, b) => a.localeCompare(b));
+}
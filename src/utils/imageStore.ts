@@ -0,0 +1,222 @@
+import { NOTE_INDEX_STORAGE_KEY, NOTE_KEY_PREFIX } from "../constants.ts";
+import storage, { imageStorage } from "../storage.ts";
+import { isEncryptedValue } from "./noteCrypto.ts";
+import { loadAllSnapshotContents } from "./noteHistory.ts";
+import { decodeStoredValue } from "./noteStorage.ts";
+import { loadNoteTemplates } from "./noteTemplates.ts";
+import { loadTrashedContents } from "./noteTrash.ts";
+
+/**
+ * Pasted images are kept as Blobs in their own store. Note markup only
+ * holds `<img data-image-id="…">`; the editor fills in an object URL.
+ */
+export const IMAGE_ID_ATTRIBUTE = "data-image-id";
+
+type StoredImage = {
+  blob: Blob;
+  createdAt: number;
+};
+
+// A fresh image may not be part of a saved note yet.
+const COLLECTION_GRACE_MS = 60 * 60 * 1000;
+
+const IMAGE_ID_PATTERN = /data-image-id="([^"]+)"/g;
+const OBJECT_URL_SOURCE_PATTERN = /(<img\b[^>]*?)\s+src="blob:[^"]*"/gi;
+
+const objectUrls = new Map<string, Promise<string | null>>();
+
+const createImageId = () => {
+  const random = Math.floor(Math.random() * 0xffffff).toString(36);
+  return `img-${Date.now().toString(36)}-${random}`;
+};
+
+const isStoredImage = (value: unknown): value is StoredImage => {
+  return (
+    Boolean(value) &&
+    typeof value === "object" &&
+    (value as StoredImage).blob instanceof Blob
+  );
+};
+
+/** Resolves with the new image id, or null when it could not be saved. */
+export async function storeImage(blob: Blob): Promise<string | null> {
+  const id = createImageId();
+  try {
+    await imageStorage.setItem<StoredImage>(id, {
+      blob,
+      createdAt: Date.now(),
+    });
+  } catch (error) {
+    console.error("Unable to store image", error);
+    return null;
+  }
+  objectUrls.set(id, Promise.resolve(URL.createObjectURL(blob)));
+  return id;
+}
+
+/** An object URL for a stored image, created once per session. */
+export function loadImageUrl(id: string): Promise<string | null> {
+  const cached = objectUrls.get(id);
+  if (cached) {
+    return cached;
+  }
+  const pending = imageStorage
+    .getItem<unknown>(id)
+    .then((value) => {
+      if (!isStoredImage(value)) {
+        objectUrls.delete(id);
+        return null;
+      }
+      return URL.createObjectURL(value.blob);
+    })
+    .catch((error) => {
+      console.error(`Unable to load image "${id}"`, error);
+      objectUrls.delete(id);
+      return null;
+    });
+  objectUrls.set(id, pending);
+  return pending;
+}
+
+/** Drops session-only object URLs so they never end up in stored markup. */
+export function stripImageSources(markup: string): string {
+  if (!markup.includes("blob:")) {
+    return markup;
+  }
+  return markup.replace(OBJECT_URL_SOURCE_PATTERN, "$1");
+}
+
+export function extractImageIds(markup: string): string[] {
+  return Array.from(markup.matchAll(IMAGE_ID_PATTERN), (match) => match[1]);
+}
+
+/** Byte size of every stored image, keyed by id. */
+export async function loadImageSizes(): Promise<Map<string, number>> {
+  const sizes = new Map<string, number>();
+  try {
+    await imageStorage.iterate<unknown, void>((value, id) => {
+      if (isStoredImage(value)) {
+        sizes.set(id, value.blob.size);
+      }
+    });
+  } catch (error) {
+    console.error("Unable to read stored images", error);
+  }
+  return sizes;
+}
+
+/** A stored image as plain data, so it can travel in a backup file. */
+export type SerializedImage = {
+  id: string;
+  createdAt: number;
+  dataUrl: string;
+};
+
+const readDataUrl = (blob: Blob) => {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Every stored image as a data URL. Images of private notes are included
+ * too, since their markup can't be read to tell which ones they use.
+ */
+export async function loadSerializedImages(): Promise<SerializedImage[]> {
+  const stored: (StoredImage & { id: string })[] = [];
+  await imageStorage.iterate<unknown, void>((value, id) => {
+    if (isStoredImage(value)) {
+      stored.push({ ...value, id });
+    }
+  });
+  return Promise.all(
+    stored.map(async ({ id, createdAt, blob }) => ({
+      id,
+      createdAt,
+      dataUrl: await readDataUrl(blob),
+    }))
+  );
+}
+
+/** Resolves false when the image could not be saved. */
+export async function restoreSerializedImage({
+  id,
+  createdAt,
+  dataUrl,
+}: SerializedImage): Promise<boolean> {
+  try {
+    // Ids are unique per image, so one already here is the same picture.
+    if (isStoredImage(await imageStorage.getItem<unknown>(id))) {
+      return true;
+    }
+    const blob = await (await fetch(dataUrl)).blob();
+    await imageStorage.setItem<StoredImage>(id, { blob, createdAt });
+    return true;
+  } catch (error) {
+    console.error(`Unable to restore image "${id}"`, error);
+    return false;
+  }
+}
+
+/** Null when a private note hides what it refers to. */
+async function loadNoteContents(): Promise<string[] | null> {
+  const keys = await storage.keys();
+  const contents: string[] = [];
+  for (const key of keys) {
+    if (key === NOTE_INDEX_STORAGE_KEY || !key.startsWith(NOTE_KEY_PREFIX)) {
+      continue;
+    }
+    const rawValue = await storage.getItem<string>(key);
+    if (isEncryptedValue(rawValue)) {
+      return null;
+    }
+    contents.push(decodeStoredValue(rawValue));
+  }
+  return contents;
+}
+
+/**
+ * Deletes stored images that no note, trashed note, history snapshot or
+ * template refers to any more. Resolves with the number of images removed. Nothing
+ * is removed while private notes exist, as their images can't be told apart.
+ */
+export async function collectUnusedImages(now = Date.now()): Promise<number> {
+  try {
+    const noteContents = await loadNoteContents();
+    const trashedContents = await loadTrashedContents();
+    if (!noteContents || !trashedContents) {
+      return 0;
+    }
+    const contents = [
+      ...noteContents,
+      ...trashedContents,
+      ...(await loadAllSnapshotContents()),
+      ...(await loadNoteTemplates()).map((template) => template.content),
+    ];
+    const referenced = new Set(contents.flatMap(extractImageIds));
+
+    const unused: string[] = [];
+    await imageStorage.iterate<unknown, void>((value, id) => {
+      if (referenced.has(id)) {
+        return;
+      }
+      const createdAt = isStoredImage(value) ? value.createdAt : 0;
+      if (now - createdAt > COLLECTION_GRACE_MS) {
+        unused.push(id);
+      }
+    });
+
+    for (const id of unused) {
+      await imageStorage.removeItem(id);
+      void objectUrls.get(id)?.then((url) => url && URL.revokeObjectURL(url));
+      objectUrls.delete(id);
+    }
+    return unused.length;
+  } catch (error) {
+    console.error("Unable to remove unused images", error);
+    return 0;
+  }
+}
@@ -0,0 +1,332 @@
+import { NOTE_INDEX_STORAGE_KEY, NOTE_KEY_PREFIX } from "../constants.ts";
+import storage from "../storage.ts";
+import {
+  loadNoteMetadataMap,
+  parseNoteTags,
+  saveNoteMetadata,
+  type NoteMetadata,
+} from "./noteMetadata.ts";
+import { recordNoteSnapshot } from "./noteHistory.ts";
+import { isEncryptedValue } from "./noteCrypto.ts";
+import {
+  decodeStoredValue,
+  getNoteStorageKey,
+  writeStoredValue,
+} from "./noteStorage.ts";
+import { extractSearchableText, indexNoteContent } from "./searchIndex.ts";
+import { extractHashtags } from "./hashtags.ts";
+import { indexNoteLinks } from "./backlinks.ts";
+import { findAvailableSlug } from "./slug.ts";
+import {
+  loadSerializedImages,
+  restoreSerializedImage,
+  type SerializedImage,
+} from "./imageStore.ts";
+
+export const ARCHIVE_FORMAT = "blinkpad-archive";
+// Version 2 added the pictures pasted into notes.
+export const ARCHIVE_VERSION = 2;
+
+type PreferenceValue =
+  | string
+  | number
+  | boolean
+  | null
+  | PreferenceValue[]
+  | { [key: string]: PreferenceValue };
+
+export type ArchivedNote = {
+  slug: string;
+  content: string;
+  metadata: NoteMetadata | null;
+};
+
+export type LibraryArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  notes: ArchivedNote[];
+  images: SerializedImage[];
+  preferences: Record<string, PreferenceValue>;
+};
+
+export type ConflictResolution = "skip" | "overwrite" | "keep-both";
+
+export type ArchiveImportPlan = {
+  archive: LibraryArchive;
+  resolutions: Record<string, ConflictResolution>;
+  includePreferences: boolean;
+};
+
+export type ArchiveImportResult = {
+  imported: string[];
+  skipped: string[];
+  /** Notes that could not be written, under the slug they were meant for. */
+  failed: string[];
+  failedImages: number;
+  preferencesRestored: number;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+/**
+ * Accepts anything that survives a JSON round trip unchanged, such as the
+ * shortcut overrides, which are stored as a plain object.
+ */
+const isPreferenceValue = (value: unknown): value is PreferenceValue => {
+  if (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "boolean"
+  ) {
+    return true;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value);
+  }
+  if (Array.isArray(value)) {
+    return value.every(isPreferenceValue);
+  }
+  return (
+    isPlainObject(value) &&
+    Object.getPrototypeOf(value) === Object.prototype &&
+    Object.values(value).every(isPreferenceValue)
+  );
+};
+
+export async function createLibraryArchive(): Promise<LibraryArchive> {
+  const metadataMap = await loadNoteMetadataMap();
+  const notes: ArchivedNote[] = [];
+  const preferences: Record<string, PreferenceValue> = {};
+
+  await storage.iterate<unknown, void>((value, key) => {
+    if (key === NOTE_INDEX_STORAGE_KEY) {
+      return;
+    }
+    if (key.startsWith(NOTE_KEY_PREFIX)) {
+      const slug = key.slice(NOTE_KEY_PREFIX.length);
+      // Private notes go into the archive still encrypted.
+      const content = isEncryptedValue(value)
+        ? value
+        : decodeStoredValue(typeof value === "string" ? value : null);
+      if (slug && content) {
+        notes.push({ slug, content, metadata: metadataMap[slug] ?? null });
+      }
+      return;
+    }
+    if (isPreferenceValue(value)) {
+      preferences[key] = value;
+    }
+  });
+
+  notes.sort((a, b) => a.slug.localeCompare(b.slug));
+  const images = await loadSerializedImages();
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    notes,
+    images,
+    preferences,
+  };
+}
+
+const parseMetadata = (slug: string, value: unknown): NoteMetadata | null => {
+  if (!isPlainObject(value)) {
+    return null;
+  }
+  const { title, updatedAt, createdAt, pinned, tags, encrypted } = value;
+  if (typeof title !== "string" || typeof updatedAt !== "number") {
+    return null;
+  }
+  return {
+    slug,
+    title,
+    updatedAt,
+    createdAt: typeof createdAt === "number" ? createdAt : updatedAt,
+    pinned: pinned === true,
+    tags: parseNoteTags(tags),
+    encrypted: encrypted === true,
+  };
+};
+
+/**
+ * Validates an archive file. Throws with a user-facing message when the
+ * file is not a Blinkpad archive or comes from a newer version.
+ */
+export function parseLibraryArchive(text: string): LibraryArchive {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not a valid Blinkpad archive.");
+  }
+
+  if (!isPlainObject(parsed) || parsed.format !== ARCHIVE_FORMAT) {
+    throw new Error("This file is not a valid Blinkpad archive.");
+  }
+  if (typeof parsed.version !== "number" || parsed.version > ARCHIVE_VERSION) {
+    throw new Error(
+      "This archive was created by a newer version of Blinkpad. Update and try again."
+    );
+  }
+
+  const notes: ArchivedNote[] = [];
+  const seenSlugs = new Set<string>();
+  if (Array.isArray(parsed.notes)) {
+    for (const entry of parsed.notes) {
+      if (!isPlainObject(entry)) continue;
+      const { slug, content } = entry;
+      if (typeof slug !== "string" || !slug || seenSlugs.has(slug)) continue;
+      if (typeof content !== "string" || !content) continue;
+      seenSlugs.add(slug);
+      notes.push({
+        slug,
+        content,
+        metadata: parseMetadata(slug, entry.metadata),
+      });
+    }
+  }
+
+  const images: SerializedImage[] = [];
+  if (Array.isArray(parsed.images)) {
+    for (const entry of parsed.images) {
+      if (!isPlainObject(entry)) continue;
+      const { id, createdAt, dataUrl } = entry;
+      if (typeof id !== "string" || !id) continue;
+      if (typeof dataUrl !== "string" || !dataUrl.startsWith("data:")) continue;
+      images.push({
+        id,
+        createdAt: typeof createdAt === "number" ? createdAt : Date.now(),
+        dataUrl,
+      });
+    }
+  }
+
+  const preferences: Record<string, PreferenceValue> = {};
+  if (isPlainObject(parsed.preferences)) {
+    for (const [key, value] of Object.entries(parsed.preferences)) {
+      if (key.startsWith(NOTE_KEY_PREFIX) || key === NOTE_INDEX_STORAGE_KEY) {
+        continue;
+      }
+      if (isPreferenceValue(value)) {
+        preferences[key] = value;
+      }
+    }
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: parsed.version,
+    exportedAt:
+      typeof parsed.exportedAt === "number" ? parsed.exportedAt : Date.now(),
+    notes,
+    images,
+    preferences,
+  };
+}
+
+export async function findConflictingSlugs(
+  archive: LibraryArchive
+): Promise<Set<string>> {
+  const conflicts = new Set<string>();
+  for (const note of archive.notes) {
+    try {
+      const existing = await storage.getItem(getNoteStorageKey(note.slug));
+      if (existing !== null) {
+        conflicts.add(note.slug);
+      }
+    } catch (error) {
+      console.error(`Unable to check note "${note.slug}" for conflicts`, error);
+    }
+  }
+  return conflicts;
+}
+
+export async function importLibraryArchive({
+  archive,
+  resolutions,
+  includePreferences,
+}: ArchiveImportPlan): Promise<ArchiveImportResult> {
+  const conflicts = await findConflictingSlugs(archive);
+  const importedSlugs = new Set<string>();
+  const result: ArchiveImportResult = {
+    imported: [],
+    skipped: [],
+    failed: [],
+    failedImages: 0,
+    preferencesRestored: 0,
+  };
+
+  for (const note of archive.notes) {
+    let targetSlug = note.slug;
+    if (conflicts.has(note.slug)) {
+      const resolution = resolutions[note.slug] ?? "skip";
+      if (resolution === "skip") {
+        result.skipped.push(note.slug);
+        continue;
+      }
+      if (resolution === "keep-both") {
+        targetSlug = await findAvailableSlug(note.slug, importedSlugs);
+      }
+    }
+
+    importedSlugs.add(targetSlug);
+    if (
+      !(await writeStoredValue(getNoteStorageKey(targetSlug), note.content))
+    ) {
+      result.failed.push(targetSlug);
+      continue;
+    }
+    if (isEncryptedValue(note.content)) {
+      await saveNoteMetadata({
+        slug: targetSlug,
+        title: "",
+        updatedAt: note.metadata?.updatedAt ?? Date.now(),
+        createdAt: note.metadata?.createdAt,
+        pinned: note.metadata?.pinned,
+        tags: [],
+        encrypted: true,
+      });
+      result.imported.push(targetSlug);
+      continue;
+    }
+    await saveNoteMetadata({
+      slug: targetSlug,
+      title: note.metadata?.title ?? targetSlug,
+      updatedAt: note.metadata?.updatedAt ?? Date.now(),
+      createdAt: note.metadata?.createdAt,
+      pinned: note.metadata?.pinned,
+      tags: extractHashtags(extractSearchableText(note.content)),
+      encrypted: false,
+    });
+    void recordNoteSnapshot(targetSlug, note.content);
+    void indexNoteContent(targetSlug, note.content);
+    void indexNoteLinks(targetSlug, note.content);
+    result.imported.push(targetSlug);
+  }
+
+  // Written after the notes, so unused image cleanup never sees them
+  // without the notes that refer to them.
+  for (const image of archive.images) {
+    if (!(await restoreSerializedImage(image))) {
+      result.failedImages += 1;
+    }
+  }
+
+  if (includePreferences) {
+    for (const [key, value] of Object.entries(archive.preferences)) {
+      try {
+        await storage.setItem(key, value);
+        result.preferencesRestored += 1;
+      } catch (error) {
+        console.error(`Unable to restore preference "${key}"`, error);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,433 @@
+const MARKDOWN_ESCAPE_PATTERN = /[\\`*_[\]<>]/g;
+const BLOCK_TAGS = new Set([
+  "DIV",
+  "P",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "BLOCKQUOTE",
+  "PRE",
+]);
+
+const escapeMarkdown = (text: string) => {
+  return text.replace(MARKDOWN_ESCAPE_PATTERN, "\\$&");
+};
+
+const escapeLineStart = (line: string) => {
+  return line
+    .replace(/^(\s*)([#>+-])(?=\s|$)/, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])(?=\s)/, "$1\\$2");
+};
+
+const escapeHtml = (text: string) => {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+};
+
+/**
+ * Wraps inline content in a Markdown delimiter, keeping surrounding
+ * whitespace outside so `**bold **` does not break the emphasis.
+ */
+const wrapInline = (content: string, open: string, close = open) => {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) {
+    return content;
+  }
+  const [, leading, inner, trailing] = match;
+  return `${leading}${open}${inner}${close}${trailing}`;
+};
+
+const inlineToMarkdown = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeMarkdown((node.textContent ?? "").replace(/\u200b/g, ""));
+  }
+  if (!(node instanceof Element)) {
+    return "";
+  }
+
+  const children = () =>
+    Array.from(node.childNodes).map(inlineToMarkdown).join("");
+
+  switch (node.tagName) {
+    case "BR":
+      return "\n";
+    case "B":
+    case "STRONG":
+      return wrapInline(children(), "**");
+    case "I":
+    case "EM":
+      return wrapInline(children(), "*");
+    case "U":
+    case "INS":
+      return wrapInline(children(), "<ins>", "</ins>");
+    case "A": {
+      const href = node.getAttribute("href");
+      const label = children();
+      if (!href) {
+        return label;
+      }
+      const destination = href.replace(
+        /[()\s]/g,
+        (character) =>
+          `%${character.charCodeAt(0).toString(16).padStart(2, "0")}`
+      );
+      return `[${label || escapeMarkdown(href)}](${destination})`;
+    }
+    case "CODE":
+      return `\`${(node.textContent ?? "").replace(/`/g, "\\`")}\``;
+    default:
+      return children();
+  }
+};
+
+const isBlockNode = (element: Element) => {
+  return (
+    BLOCK_TAGS.has(element.tagName) ||
+    element.tagName === "UL" ||
+    element.tagName === "OL" ||
+    element.tagName === "HR"
+  );
+};
+
+const hasBlockChildren = (element: Element) => {
+  return Array.from(element.children).some(isBlockNode);
+};
+
+const collectMarkdownLines = (
+  nodes: NodeListOf<ChildNode>,
+  lines: string[]
+) => {
+  let inlineBuffer = "";
+
+  const flushInline = () => {
+    if (!inlineBuffer) return;
+    lines.push(...inlineBuffer.split("\n").map(escapeLineStart));
+    inlineBuffer = "";
+  };
+
+  nodes.forEach((node) => {
+    if (!(node instanceof Element) || !isBlockNode(node)) {
+      inlineBuffer += inlineToMarkdown(node);
+      return;
+    }
+
+    flushInline();
+
+    if (node.tagName === "HR") {
+      lines.push("---");
+      return;
+    }
+
+    if (node.tagName === "PRE") {
+      const code = (node.textContent ?? "").replace(/\u200b/g, "");
+      lines.push("```", ...code.replace(/\n$/, "").split("\n"), "```");
+      return;
+    }
+
+    if (node.tagName === "UL" || node.tagName === "OL") {
+      const ordered = node.tagName === "OL";
+      Array.from(node.children).forEach((item, index) => {
+        const marker = ordered ? `${index + 1}.` : "-";
+        const content = inlineToMarkdown(item).replace(/\n+/g, " ").trim();
+        lines.push(`${marker} ${content}`);
+      });
+      return;
+    }
+
+    if (hasBlockChildren(node)) {
+      collectMarkdownLines(node.childNodes, lines);
+      return;
+    }
+
+    const content = inlineToMarkdown(node);
+    if (!content.replace(/\n/g, "").trim()) {
+      lines.push("");
+      return;
+    }
+    if (node.hasAttribute("data-task")) {
+      const marker = node.getAttribute("data-task") === "done" ? "x" : " ";
+      lines.push(`- [${marker}] ${content.replace(/\s*\n\s*/g, " ").trim()}`);
+      return;
+    }
+    if (/^H[1-6]$/.test(node.tagName)) {
+      lines.push(`## ${content.replace(/\s*\n\s*/g, " ").trim()}`);
+      return;
+    }
+    lines.push(...content.replace(/\n$/, "").split("\n").map(escapeLineStart));
+  });
+
+  flushInline();
+};
+
+/**
+ * Converts note markup (one `<div>` per line, `<b>` highlight, `<i>`,
+ * wavy `<u>`, links, lists, checklists, headings and code blocks) to
+ * Markdown. The first line becomes the document heading, mirroring how the
+ * editor styles it as the title.
+ */
+export function noteHtmlToMarkdown(markup: string): string {
+  if (!markup) {
+    return "";
+  }
+  const scratch = document.createElement("div");
+  scratch.innerHTML = markup;
+
+  const lines: string[] = [];
+  collectMarkdownLines(scratch.childNodes, lines);
+
+  while (lines.length && !lines[lines.length - 1].trim()) {
+    lines.pop();
+  }
+  const firstContentIndex = lines.findIndex((line) => line.trim());
+  if (firstContentIndex === -1) {
+    return "";
+  }
+  const trimmed = lines.slice(firstContentIndex);
+  trimmed[0] = `# ${trimmed[0].replace(/^## /, "")}`;
+  return `${trimmed.join("\n")}\n`;
+}
+
+const isSafeHref = (href: string) => {
+  if (/^(https?:|mailto:)/i.test(href)) {
+    return true;
+  }
+  return href.startsWith("/") || href.startsWith("?") || href.startsWith("#");
+};
+
+const createLinkMarkup = (label: string, href: string) => {
+  let isInternalLink = !/^[a-z]+:/i.test(href);
+  try {
+    isInternalLink =
+      new URL(href, window.location.origin).origin === window.location.origin;
+  } catch {
+    /* keep the scheme based guess */
+  }
+  const target = isInternalLink ? "_self" : "_blank";
+  return `<a href="${escapeHtml(href)}" target="${target}" contenteditable="false">${label}</a>`;
+};
+
+const findClosing = (source: string, delimiter: string, from: number) => {
+  let index = from;
+  while (index < source.length) {
+    if (source[index] === "\\") {
+      index += 2;
+      continue;
+    }
+    if (source.startsWith(delimiter, index)) {
+      return index;
+    }
+    index += 1;
+  }
+  return -1;
+};
+
+const INLINE_WRAPPERS: { open: string; close: string; tag: string }[] = [
+  { open: "**", close: "**", tag: "b" },
+  { open: "__", close: "__", tag: "b" },
+  { open: "<ins>", close: "</ins>", tag: "u" },
+  { open: "<u>", close: "</u>", tag: "u" },
+  { open: "*", close: "*", tag: "i" },
+  { open: "_", close: "_", tag: "i" },
+];
+
+const inlineToHtml = (source: string): string => {
+  let html = "";
+  let index = 0;
+
+  while (index < source.length) {
+    const character = source[index];
+
+    if (character === "\\" && index + 1 < source.length) {
+      html += escapeHtml(source[index + 1]);
+      index += 2;
+      continue;
+    }
+
+    if (character === "`") {
+      const closing = findClosing(source, "`", index + 1);
+      if (closing > index + 1) {
+        html += escapeHtml(
+          source.slice(index + 1, closing).replace(/\\`/g, "`")
+        );
+        index = closing + 1;
+        continue;
+      }
+    }
+
+    if (character === "[") {
+      const linkMatch = source
+        .slice(index)
+        .match(/^\[((?:\\.|[^\]\\])*)\]\(([^)\s]+)\)/);
+      if (linkMatch) {
+        const [whole, label, href] = linkMatch;
+        html += isSafeHref(href)
+          ? createLinkMarkup(inlineToHtml(label) || escapeHtml(href), href)
+          : inlineToHtml(label);
+        index += whole.length;
+        continue;
+      }
+    }
+
+    if (character === "<") {
+      const autolink = source.slice(index).match(/^<(https?:\/\/[^>\s]+)>/i);
+      if (autolink) {
+        html += createLinkMarkup(escapeHtml(autolink[1]), autolink[1]);
+        index += autolink[0].length;
+        continue;
+      }
+    }
+
+    const wrapper = INLINE_WRAPPERS.find(({ open }) =>
+      source.startsWith(open, index)
+    );
+    if (wrapper) {
+      const contentStart = index + wrapper.open.length;
+      const closing = findClosing(source, wrapper.close, contentStart);
+      const inner = closing === -1 ? "" : source.slice(contentStart, closing);
+      const isIntraword =
+        wrapper.open === "_" &&
+        /\w/.test(source[index - 1] ?? "") &&
+        /\w/.test(source[closing + 1] ?? "");
+      if (inner.trim() && !/^\s/.test(inner) && !isIntraword) {
+        html += `<${wrapper.tag}>${inlineToHtml(inner)}</${wrapper.tag}>`;
+        index = closing + wrapper.close.length;
+        continue;
+      }
+    }
+
+    html += escapeHtml(character);
+    index += 1;
+  }
+
+  return html;
+};
+
+/**
+ * Converts Markdown into the note's HTML vocabulary. Headings below the
+ * title become `<h2>`, `- [ ]` items checklist lines and code fences
+ * `<pre>`; anything the editor cannot represent (quotes, nested lists) is
+ * kept as plain lines so no text is lost.
+ */
+export function markdownToNoteHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: string[] = [];
+  let listType: "ul" | "ol" | null = null;
+  let listItems: string[] = [];
+  let fenceLines: string[] | null = null;
+  let seenContent = false;
+
+  const flushList = () => {
+    if (!listType) return;
+    blocks.push(
+      `<${listType}>${listItems.map((item) => `<li>${item}</li>`).join("")}</${listType}>`
+    );
+    listType = null;
+    listItems = [];
+  };
+
+  const flushFence = () => {
+    if (!fenceLines) return;
+    blocks.push(`<pre>${escapeHtml(fenceLines.join("\n")) || "<br>"}</pre>`);
+    fenceLines = null;
+  };
+
+  const pushListItem = (type: "ul" | "ol", content: string) => {
+    if (listType !== type) {
+      flushList();
+      listType = type;
+    }
+    listItems.push(inlineToHtml(content));
+  };
+
+  for (const rawLine of lines) {
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      if (fenceLines) {
+        flushFence();
+      } else {
+        flushList();
+        fenceLines = [];
+        seenContent = true;
+      }
+      continue;
+    }
+
+    if (fenceLines) {
+      fenceLines.push(rawLine);
+      continue;
+    }
+
+    const line = rawLine.replace(/\s+$/, "");
+
+    if (!seenContent && !line.trim()) {
+      continue;
+    }
+
+    const taskItem = line.match(/^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/);
+    if (taskItem) {
+      flushList();
+      const state = taskItem[1] === " " ? "todo" : "done";
+      blocks.push(
+        `<div data-task="${state}">${inlineToHtml(taskItem[2]) || "<br>"}</div>`
+      );
+      seenContent = true;
+      continue;
+    }
+
+    const unorderedItem = line.match(/^\s*[-*+]\s+(.*)$/);
+    if (unorderedItem && !/^\s*([-*_])(\s*\1){2,}$/.test(line)) {
+      pushListItem("ul", unorderedItem[1]);
+      seenContent = true;
+      continue;
+    }
+
+    const orderedItem = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    if (orderedItem) {
+      pushListItem("ol", orderedItem[1]);
+      seenContent = true;
+      continue;
+    }
+
+    flushList();
+
+    if (/^\s*([-*_])(\s*\1){2,}$/.test(line)) {
+      blocks.push("<hr>");
+      seenContent = true;
+      continue;
+    }
+
+    if (!line.trim()) {
+      blocks.push("<div><br></div>");
+      continue;
+    }
+
+    if (seenContent && /^\s{0,3}#{1,6}\s+/.test(line)) {
+      const heading = line
+        .replace(/^\s{0,3}#{1,6}\s+/, "")
+        .replace(/\s+#+$/, "");
+      blocks.push(`<h2>${inlineToHtml(heading)}</h2>`);
+      continue;
+    }
+
+    const content = line
+      .replace(/^\s{0,3}#{1,6}\s+/, "")
+      .replace(/\s+#+$/, "")
+      .replace(/^\s{0,3}>\s?/, "");
+    blocks.push(`<div>${inlineToHtml(content) || "<br>"}</div>`);
+    seenContent = true;
+  }
+
+  flushList();
+  flushFence();
+
+  while (blocks.length && blocks[blocks.length - 1] === "<div><br></div>") {
+    blocks.pop();
+  }
+
+  return blocks.join("");
+}
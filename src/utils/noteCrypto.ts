@@ -0,0 +1,144 @@
+/**
+ * Private notes are stored as AES-GCM ciphertext under a key derived from
+ * a passphrase with PBKDF2. Salt and IV are kept next to the ciphertext,
+ * so the passphrase is all it takes to read a note back.
+ */
+const ENCRYPTED_VALUE_PREFIX = "dnv1-enc:";
+const PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+type EncryptedEnvelope = {
+  salt: string;
+  iv: string;
+  data: string;
+};
+
+export type NoteKey = {
+  key: CryptoKey;
+  salt: Uint8Array<ArrayBuffer>;
+};
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => {
+  return Uint8Array.from(atob(value), (character) => character.charCodeAt(0));
+};
+
+const parseEnvelope = (value: string): EncryptedEnvelope | null => {
+  try {
+    const parsed = JSON.parse(value.slice(ENCRYPTED_VALUE_PREFIX.length));
+    const { salt, iv, data } = parsed ?? {};
+    if (
+      typeof salt !== "string" ||
+      typeof iv !== "string" ||
+      typeof data !== "string"
+    ) {
+      return null;
+    }
+    return { salt, iv, data };
+  } catch {
+    return null;
+  }
+};
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(ENCRYPTED_VALUE_PREFIX);
+}
+
+/** WebCrypto is only available on secure origins. */
+export function isEncryptionSupported(): boolean {
+  return typeof crypto !== "undefined" && Boolean(crypto.subtle);
+}
+
+/** Derives a note key; leave out the salt to start a new one. */
+export async function deriveNoteKey(
+  passphrase: string,
+  salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+): Promise<NoteKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    textEncoder.encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  const key = await crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+  return { key, salt };
+}
+
+export async function encryptValue(
+  { key, salt }: NoteKey,
+  value: string
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    textEncoder.encode(value)
+  );
+  const envelope: EncryptedEnvelope = {
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+  };
+  return `${ENCRYPTED_VALUE_PREFIX}${JSON.stringify(envelope)}`;
+}
+
+/** Resolves with null when the key does not fit, e.g. after a new passphrase. */
+export async function decryptValue(
+  { key }: NoteKey,
+  value: string
+): Promise<string | null> {
+  const envelope = parseEnvelope(value);
+  if (!envelope) {
+    return null;
+  }
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(envelope.iv) },
+      key,
+      fromBase64(envelope.data)
+    );
+    return textDecoder.decode(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Derives the key from the passphrase and the salt stored with the value.
+ * Resolves with null when the passphrase is wrong.
+ */
+export async function unlockValue(
+  value: string,
+  passphrase: string
+): Promise<{ noteKey: NoteKey; content: string } | null> {
+  const envelope = parseEnvelope(value);
+  if (!envelope) {
+    return null;
+  }
+  try {
+    const noteKey = await deriveNoteKey(passphrase, fromBase64(envelope.salt));
+    const content = await decryptValue(noteKey, value);
+    return content === null ? null : { noteKey, content };
+  } catch (error) {
+    console.error("Unable to derive the note key", error);
+    return null;
+  }
+}
@@ -0,0 +1,230 @@
+import { compressToUTF16, decompressFromUTF16 } from "lz-string";
+import { historyStorage } from "../storage.ts";
+
+export type NoteSnapshot = {
+  id: string;
+  createdAt: number;
+  content: string;
+};
+
+type StoredSnapshot = {
+  id: string;
+  createdAt: number;
+  data: string;
+};
+
+type RetentionTier = {
+  maxAgeMs: number;
+  bucketMs: number;
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Recent saves are all kept, older ones are thinned out to one per bucket.
+const RETENTION_TIERS: RetentionTier[] = [
+  { maxAgeMs: 10 * MINUTE_MS, bucketMs: 0 },
+  { maxAgeMs: HOUR_MS, bucketMs: MINUTE_MS },
+  { maxAgeMs: DAY_MS, bucketMs: HOUR_MS },
+  { maxAgeMs: 30 * DAY_MS, bucketMs: DAY_MS },
+];
+
+const MAX_SNAPSHOTS_PER_NOTE = 150;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+const createSnapshotId = (createdAt: number) => {
+  const random = Math.floor(Math.random() * 0xffffff).toString(36);
+  return `${createdAt.toString(36)}-${random}`;
+};
+
+async function readSnapshots(slug: string): Promise<StoredSnapshot[]> {
+  try {
+    const rawValue = await historyStorage.getItem<string>(slug);
+    if (!rawValue) {
+      return [];
+    }
+    const parsed = JSON.parse(rawValue);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.filter((value): value is StoredSnapshot => {
+      if (!isPlainObject(value)) return false;
+      return (
+        typeof value.id === "string" &&
+        typeof value.createdAt === "number" &&
+        typeof value.data === "string"
+      );
+    });
+  } catch (error) {
+    console.error(`Unable to read history for note "${slug}"`, error);
+    return [];
+  }
+}
+
+async function writeSnapshots(
+  slug: string,
+  snapshots: StoredSnapshot[]
+): Promise<void> {
+  try {
+    if (!snapshots.length) {
+      await historyStorage.removeItem(slug);
+      return;
+    }
+    await historyStorage.setItem(slug, JSON.stringify(snapshots));
+  } catch (error) {
+    console.error(`Unable to persist history for note "${slug}"`, error);
+  }
+}
+
+const createSnapshot = (
+  content: string,
+  createdAt: number
+): StoredSnapshot => ({
+  id: createSnapshotId(createdAt),
+  createdAt,
+  data: compressToUTF16(content),
+});
+
+function decodeSnapshot(snapshot: StoredSnapshot): string {
+  try {
+    const decompressed = decompressFromUTF16(snapshot.data);
+    if (typeof decompressed === "string") {
+      return decompressed;
+    }
+  } catch {
+    /* ignore malformed compressed content */
+  }
+  return "";
+}
+
+export function pruneSnapshots<T extends { createdAt: number }>(
+  snapshots: T[],
+  now = Date.now()
+): T[] {
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt - a.createdAt);
+  const seenBuckets = new Set<string>();
+  const kept: T[] = [];
+  let keptBeyondTiers = false;
+
+  for (const snapshot of newestFirst) {
+    const age = Math.max(0, now - snapshot.createdAt);
+    const tierIndex = RETENTION_TIERS.findIndex((tier) => age < tier.maxAgeMs);
+    if (tierIndex === -1) {
+      // The newest older snapshot stays, so a note edited after a long
+      // break can still go back to what it held before.
+      if (!keptBeyondTiers) {
+        keptBeyondTiers = true;
+        kept.push(snapshot);
+      }
+      continue;
+    }
+    const { bucketMs } = RETENTION_TIERS[tierIndex];
+    if (bucketMs > 0) {
+      const bucketKey = `${tierIndex}:${Math.floor(
+        snapshot.createdAt / bucketMs
+      )}`;
+      if (seenBuckets.has(bucketKey)) {
+        continue;
+      }
+      seenBuckets.add(bucketKey);
+    }
+    kept.push(snapshot);
+    if (kept.length >= MAX_SNAPSHOTS_PER_NOTE) {
+      break;
+    }
+  }
+
+  return kept;
+}
+
+let pendingOperation: Promise<void> = Promise.resolve();
+
+const enqueue = (operation: () => Promise<void>): Promise<void> => {
+  pendingOperation = pendingOperation.then(operation, operation);
+  return pendingOperation;
+};
+
+/** What a note held before a save, and when that content was saved. */
+export type PreviousNoteContent = {
+  content: string;
+  savedAt: number;
+};
+
+/**
+ * Records a save. When the history does not end with `previous`, as for
+ * notes written before history was kept, that content is recorded first at
+ * the time it was saved, so the save can be undone. Saving `previous` again
+ * unchanged records it at that time too.
+ */
+export function recordNoteSnapshot(
+  slug: string,
+  content: string,
+  previous?: PreviousNoteContent
+): Promise<void> {
+  return enqueue(async () => {
+    if (!content) {
+      return;
+    }
+    const snapshots = await readSnapshots(slug);
+    const newestContent = snapshots[0] ? decodeSnapshot(snapshots[0]) : null;
+    if (newestContent === content) {
+      return;
+    }
+    const now = Date.now();
+    const previousSavedAt = Math.min(previous?.savedAt ?? now, now - 1);
+    if (previous?.content === content) {
+      snapshots.unshift(createSnapshot(content, previousSavedAt));
+    } else {
+      if (previous?.content && previous.content !== newestContent) {
+        snapshots.unshift(createSnapshot(previous.content, previousSavedAt));
+      }
+      snapshots.unshift(createSnapshot(content, now));
+    }
+    await writeSnapshots(slug, pruneSnapshots(snapshots, now));
+  });
+}
+
+export async function loadNoteSnapshots(slug: string): Promise<NoteSnapshot[]> {
+  await pendingOperation;
+  const snapshots = pruneSnapshots(await readSnapshots(slug));
+  return snapshots.map((snapshot) => ({
+    id: snapshot.id,
+    createdAt: snapshot.createdAt,
+    content: decodeSnapshot(snapshot),
+  }));
+}
+
+/** Content of every snapshot of every note, for reference checks. */
+export async function loadAllSnapshotContents(): Promise<string[]> {
+  await pendingOperation;
+  const contents: string[] = [];
+  try {
+    const slugs = await historyStorage.keys();
+    for (const slug of slugs) {
+      const snapshots = await readSnapshots(slug);
+      contents.push(...snapshots.map(decodeSnapshot));
+    }
+  } catch (error) {
+    console.error("Unable to read note history", error);
+  }
+  return contents;
+}
+
+export function deleteNoteHistory(slug: string): Promise<void> {
+  return enqueue(() => writeSnapshots(slug, []));
+}
+
+export function moveNoteHistory(from: string, to: string): Promise<void> {
+  return enqueue(async () => {
+    const snapshots = await readSnapshots(from);
+    if (!snapshots.length) {
+      return;
+    }
+    await writeSnapshots(to, snapshots);
+    await writeSnapshots(from, []);
+  });
+}
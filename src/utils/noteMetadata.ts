@@ -1,18 +1,46 @@
 import { NOTE_INDEX_STORAGE_KEY } from "../constants.ts";
 import storage from "../storage.ts";
+import { reportStorageWriteFailure } from "./storageFailures.ts";
 
 export type NoteMetadata = {
   slug: string;
   title: string;
   updatedAt: number;
+  createdAt: number;
+  pinned: boolean;
+  /** Hashtags found on the last save; missing for notes not scanned yet. */
+  tags?: string[];
+  /** Private notes keep an empty title and no tags here. */
+  encrypted: boolean;
 };
 
+/** Fields left out of an update keep their stored value. */
+export type NoteMetadataUpdate = Omit<
+  NoteMetadata,
+  "createdAt" | "pinned" | "tags" | "encrypted"
+> &
+  Partial<Pick<NoteMetadata, "createdAt" | "pinned" | "tags" | "encrypted">>;
+
 type NoteMetadataIndex = Record<string, NoteMetadata>;
 
 const isPlainObject = (value: unknown): value is Record<string, unknown> => {
   return Boolean(value) && typeof value === "object" && !Array.isArray(value);
 };
 
+export const parseNoteTags = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value.filter((tag): tag is string => typeof tag === "string");
+};
+
+const areTagsEqual = (a: string[] | undefined, b: string[] | undefined) => {
+  if (!a || !b) {
+    return a === b;
+  }
+  return a.length === b.length && a.every((tag, index) => tag === b[index]);
+};
+
 async function readIndex(): Promise<NoteMetadataIndex> {
   try {
     const rawValue = await storage.getItem<string>(NOTE_INDEX_STORAGE_KEY);
@@ -27,10 +55,20 @@ async function readIndex(): Promise<NoteMetadataIndex> {
     const index: NoteMetadataIndex = {};
     for (const [key, value] of Object.entries(parsed)) {
       if (!isPlainObject(value)) continue;
-      const { slug, title, updatedAt } = value as Partial<NoteMetadata>;
+      const { slug, title, updatedAt, createdAt, pinned, tags, encrypted } =
+        value as Partial<NoteMetadata>;
       if (typeof slug !== "string" || typeof title !== "string") continue;
       if (typeof updatedAt !== "number") continue;
-      index[key] = { slug, title, updatedAt };
+      index[key] = {
+        slug,
+        title,
+        updatedAt,
+        // Entries written before these fields existed.
+        createdAt: typeof createdAt === "number" ? createdAt : updatedAt,
+        pinned: pinned === true,
+        tags: parseNoteTags(tags),
+        encrypted: encrypted === true,
+      };
     }
     return index;
   } catch (error) {
@@ -39,11 +77,14 @@ async function readIndex(): Promise<NoteMetadataIndex> {
   }
 }
 
-async function writeIndex(index: NoteMetadataIndex) {
+async function writeIndex(index: NoteMetadataIndex): Promise<boolean> {
   try {
     await storage.setItem(NOTE_INDEX_STORAGE_KEY, JSON.stringify(index));
+    return true;
   } catch (error) {
     console.error("Unable to persist note metadata index", error);
+    reportStorageWriteFailure(NOTE_INDEX_STORAGE_KEY, error);
+    return false;
   }
 }
 
@@ -51,25 +92,106 @@ export async function loadNoteMetadataMap(): Promise<NoteMetadataIndex> {
   return readIndex();
 }
 
-export async function saveNoteMetadata(metadata: NoteMetadata): Promise<void> {
-  const index = await readIndex();
-  const existing = index[metadata.slug];
+let pendingOperation: Promise<unknown> = Promise.resolve();
+
+/**
+ * Every change reads the whole index and writes it back, so changes run one
+ * at a time; otherwise the last write would drop the others.
+ */
+const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+  const result = pendingOperation.then(operation, operation);
+  pendingOperation = result.catch(() => undefined);
+  return result;
+};
+
+/** Returns false when the stored record already matches the update. */
+const applyUpdate = (
+  index: NoteMetadataIndex,
+  update: NoteMetadataUpdate
+): boolean => {
+  const existing = index[update.slug];
+  const metadata: NoteMetadata = {
+    ...update,
+    createdAt: update.createdAt ?? existing?.createdAt ?? update.updatedAt,
+    pinned: update.pinned ?? existing?.pinned ?? false,
+    tags: update.tags ?? existing?.tags,
+    encrypted: update.encrypted ?? existing?.encrypted ?? false,
+  };
   if (
     existing &&
     existing.title === metadata.title &&
-    existing.updatedAt === metadata.updatedAt
+    existing.updatedAt === metadata.updatedAt &&
+    existing.createdAt === metadata.createdAt &&
+    existing.pinned === metadata.pinned &&
+    existing.encrypted === metadata.encrypted &&
+    areTagsEqual(existing.tags, metadata.tags)
   ) {
-    return;
+    return false;
   }
   index[metadata.slug] = metadata;
-  await writeIndex(index);
+  return true;
+};
+
+export function saveNoteMetadata(update: NoteMetadataUpdate): Promise<void> {
+  return enqueue(async () => {
+    const index = await readIndex();
+    if (applyUpdate(index, update)) {
+      await writeIndex(index);
+    }
+  });
 }
 
-export async function deleteNoteMetadata(slug: string): Promise<void> {
-  const index = await readIndex();
-  if (!index[slug]) {
-    return;
-  }
-  delete index[slug];
-  await writeIndex(index);
+/**
+ * Fills in records read from the stored notes in a single index write.
+ * `scanned` is the index the updates were worked out from; records saved,
+ * renamed or deleted since then are left alone.
+ */
+export function backfillNoteMetadata(
+  updates: NoteMetadataUpdate[],
+  scanned: NoteMetadataIndex
+): Promise<void> {
+  return enqueue(async () => {
+    if (!updates.length) {
+      return;
+    }
+    const index = await readIndex();
+    let changed = false;
+    for (const update of updates) {
+      if (index[update.slug]?.updatedAt !== scanned[update.slug]?.updatedAt) {
+        continue;
+      }
+      changed = applyUpdate(index, update) || changed;
+    }
+    if (changed) {
+      await writeIndex(index);
+    }
+  });
+}
+
+export function deleteNoteMetadata(slug: string): Promise<void> {
+  return enqueue(async () => {
+    const index = await readIndex();
+    if (!index[slug]) {
+      return;
+    }
+    delete index[slug];
+    await writeIndex(index);
+  });
+}
+
+/**
+ * Moves a metadata record to a new slug in a single index write, so the
+ * record is never missing or duplicated. Returns false when it was not saved.
+ */
+export function renameNoteMetadata(from: string, to: string): Promise<boolean> {
+  return enqueue(async () => {
+    const index = await readIndex();
+    const existing = index[from];
+    if (!existing) {
+      return true;
+    }
+    delete index[from];
+    index[to] = { ...existing, slug: to };
+    return writeIndex(index);
+  });
 }
@@ -0,0 +1,122 @@
+import { NOTE_SORT_STORAGE_KEY } from "../constants.ts";
+import storage from "../storage.ts";
+
+export type NoteSortOrder = "updated" | "created" | "title";
+
+export type OrderableNote = {
+  slug: string;
+  title: string;
+  updatedAt: number;
+  createdAt: number;
+  pinned: boolean;
+};
+
+export type NoteGroup<T extends OrderableNote> = {
+  label: string;
+  entries: T[];
+};
+
+export const NOTE_SORT_LABELS: Record<NoteSortOrder, string> = {
+  updated: "Last edited",
+  created: "Created",
+  title: "Title",
+};
+
+const DEFAULT_SORT_ORDER: NoteSortOrder = "updated";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isNoteSortOrder = (value: unknown): value is NoteSortOrder => {
+  return typeof value === "string" && value in NOTE_SORT_LABELS;
+};
+
+export async function loadNoteSortOrder(): Promise<NoteSortOrder> {
+  try {
+    const stored = await storage.getItem<string>(NOTE_SORT_STORAGE_KEY);
+    return isNoteSortOrder(stored) ? stored : DEFAULT_SORT_ORDER;
+  } catch (error) {
+    console.error("Unable to read note sort preference", error);
+    return DEFAULT_SORT_ORDER;
+  }
+}
+
+export async function saveNoteSortOrder(order: NoteSortOrder): Promise<void> {
+  try {
+    if (order === DEFAULT_SORT_ORDER) {
+      await storage.removeItem(NOTE_SORT_STORAGE_KEY);
+    } else {
+      await storage.setItem(NOTE_SORT_STORAGE_KEY, order);
+    }
+  } catch (error) {
+    console.error("Unable to persist note sort preference", error);
+  }
+}
+
+const compareTitles = (a: OrderableNote, b: OrderableNote) => {
+  return (
+    a.title.localeCompare(b.title, undefined, { sensitivity: "base" }) ||
+    a.slug.localeCompare(b.slug)
+  );
+};
+
+export function sortNotes<T extends OrderableNote>(
+  entries: T[],
+  order: NoteSortOrder
+): T[] {
+  return [...entries].sort((a, b) => {
+    if (order === "title") {
+      return compareTitles(a, b);
+    }
+    const field = order === "created" ? "createdAt" : "updatedAt";
+    return b[field] - a[field] || compareTitles(a, b);
+  });
+}
+
+/**
+ * Sorts notes and splits them into Pinned, Today, This week and Older.
+ * Date groups follow the field used for sorting; sorting by title keeps a
+ * single group after the pinned notes. Empty groups are left out.
+ */
+export function groupNotes<T extends OrderableNote>(
+  entries: T[],
+  order: NoteSortOrder,
+  now = new Date()
+): NoteGroup<T>[] {
+  const sorted = sortNotes(entries, order);
+  const pinned = sorted.filter((entry) => entry.pinned);
+  const unpinned = sorted.filter((entry) => !entry.pinned);
+  const groups: NoteGroup<T>[] = [{ label: "Pinned", entries: pinned }];
+
+  if (order === "title") {
+    groups.push({
+      label: pinned.length ? "Other notes" : "All notes",
+      entries: unpinned,
+    });
+  } else {
+    const field = order === "created" ? "createdAt" : "updatedAt";
+    const startOfToday = new Date(now);
+    startOfToday.setHours(0, 0, 0, 0);
+    const todayStart = startOfToday.getTime();
+    const weekStart = todayStart - 6 * DAY_MS;
+
+    const today: T[] = [];
+    const thisWeek: T[] = [];
+    const older: T[] = [];
+    unpinned.forEach((entry) => {
+      const timestamp = entry[field];
+      if (timestamp >= todayStart) {
+        today.push(entry);
+      } else if (timestamp >= weekStart) {
+        thisWeek.push(entry);
+      } else {
+        older.push(entry);
+      }
+    });
+    groups.push(
+      { label: "Today", entries: today },
+      { label: "This week", entries: thisWeek },
+      { label: "Older", entries: older }
+    );
+  }
+
+  return groups.filter((group) => group.entries.length > 0);
+}
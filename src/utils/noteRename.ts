@@ -0,0 +1,128 @@
+import storage from "../storage.ts";
+import {
+  indexNoteLinks,
+  loadBacklinks,
+  removeNoteLinks,
+  rewriteNoteLinks,
+} from "./backlinks.ts";
+import { moveNoteHistory, recordNoteSnapshot } from "./noteHistory.ts";
+import { loadNoteMetadataMap, renameNoteMetadata } from "./noteMetadata.ts";
+import {
+  decodeStoredValue,
+  getNoteStorageKey,
+  isNoteEncrypted,
+  isNoteLocked,
+  readStoredValue,
+  writeStoredValue,
+} from "./noteStorage.ts";
+import { indexNoteContent, removeNoteFromIndex } from "./searchIndex.ts";
+import { doesSlugExist, isReservedSlug } from "./slug.ts";
+
+export type RewrittenNote = {
+  slug: string;
+  content: string;
+};
+
+export type NoteRenameResult = {
+  rewritten: RewrittenNote[];
+  /** Locked private notes, whose links could not be checked. */
+  lockedNotes: string[];
+};
+
+/**
+ * Moves a note to a new key and repoints links in other notes.
+ *
+ * The content is copied before the old entry is removed and the metadata
+ * record moves in one index write; if that write fails the copy is rolled
+ * back, so a failed rename leaves the note where it was. Throws with a
+ * user-facing message.
+ *
+ * Private notes are not in the backlinks index, so unlocked ones are read
+ * one by one; locked ones are reported back unchanged.
+ */
+export async function renameNote(
+  from: string,
+  to: string
+): Promise<NoteRenameResult> {
+  if (isReservedSlug(from) || isReservedSlug(to)) {
+    throw new Error("That key is reserved. Please pick another name.");
+  }
+  if (await doesSlugExist(to)) {
+    throw new Error("A note with that key already exists.");
+  }
+
+  const fromKey = getNoteStorageKey(from);
+  const toKey = getNoteStorageKey(to);
+  let rawValue: string | null;
+  try {
+    rawValue = await storage.getItem<string>(fromKey);
+  } catch (error) {
+    console.error(`Unable to read note "${from}" for renaming`, error);
+    throw new Error("We couldn't read this note. Please try again.");
+  }
+  if (rawValue === null) {
+    throw new Error("This note no longer exists.");
+  }
+
+  try {
+    await storage.setItem(toKey, rawValue);
+  } catch (error) {
+    console.error(`Unable to copy note "${from}" to "${to}"`, error);
+    throw new Error("We couldn't save the note under its new key.");
+  }
+
+  if (!(await renameNoteMetadata(from, to))) {
+    try {
+      await storage.removeItem(toKey);
+    } catch (error) {
+      console.error(`Unable to roll back the copy of note "${from}"`, error);
+    }
+    throw new Error("We couldn't save the note under its new key.");
+  }
+
+  try {
+    await storage.removeItem(fromKey);
+  } catch (error) {
+    console.error(`Unable to remove the old entry of note "${from}"`, error);
+  }
+
+  const content = decodeStoredValue(rawValue);
+  void moveNoteHistory(from, to);
+  void removeNoteFromIndex(from);
+  void indexNoteContent(to, content);
+  await removeNoteLinks(from);
+  await indexNoteLinks(to, content);
+
+  const rewritten: RewrittenNote[] = [];
+  const lockedNotes: string[] = [];
+  const metadataMap = await loadNoteMetadataMap();
+  const privateNotes = Object.values(metadataMap)
+    .filter((metadata) => metadata.encrypted && metadata.slug !== to)
+    .map((metadata) => metadata.slug);
+  const sources = new Set([...(await loadBacklinks(from)), ...privateNotes]);
+  for (const source of sources) {
+    const storageKey = getNoteStorageKey(source);
+    const markup = await readStoredValue(storageKey);
+    if (isNoteLocked(storageKey)) {
+      lockedNotes.push(source);
+      continue;
+    }
+    const updated = rewriteNoteLinks(markup, from, to);
+    if (!markup || updated === markup) {
+      continue;
+    }
+    await writeStoredValue(storageKey, updated);
+    // An unlocked private note must not leave a readable copy behind.
+    if (!isNoteEncrypted(storageKey)) {
+      void recordNoteSnapshot(source, updated, {
+        content: markup,
+        savedAt: metadataMap[source]?.updatedAt || Date.now(),
+      });
+      void indexNoteContent(source, updated);
+      await indexNoteLinks(source, updated);
+    }
+    rewritten.push({ slug: source, content: updated });
+  }
+
+  return { rewritten, lockedNotes };
+}
@@ -0,0 +1,226 @@
+import { compressToUTF16, decompressFromUTF16 } from "lz-string";
+import { DEFAULT_STORAGE_KEY, NOTE_KEY_PREFIX } from "../constants.ts";
+import storage from "../storage.ts";
+import {
+  deriveNoteKey,
+  decryptValue,
+  encryptValue,
+  isEncryptedValue,
+  unlockValue,
+  type NoteKey,
+} from "./noteCrypto.ts";
+import { reportStorageWriteFailure } from "./storageFailures.ts";
+
+// Private notes this tab has come across, and the keys of those unlocked
+// here. Keys only ever live in memory.
+const encryptedStorageKeys = new Set<string>();
+const noteKeys = new Map<string, NoteKey>();
+// Encryption is async, so writes are chained to reach storage in order.
+const pendingEncryptions = new Map<string, Promise<unknown>>();
+
+const observeStoredValue = (storageKey: string, rawValue: string | null) => {
+  if (isEncryptedValue(rawValue)) {
+    encryptedStorageKeys.add(storageKey);
+    return;
+  }
+  // Made public or deleted elsewhere; a leftover key must not re-encrypt it.
+  encryptedStorageKeys.delete(storageKey);
+  noteKeys.delete(storageKey);
+};
+
+const encryptInOrder = (
+  storageKey: string,
+  noteKey: NoteKey,
+  value: string
+) => {
+  const previous = pendingEncryptions.get(storageKey) ?? Promise.resolve();
+  const encrypted = previous.then(() => encryptValue(noteKey, value));
+  pendingEncryptions.set(
+    storageKey,
+    encrypted.catch(() => undefined)
+  );
+  return encrypted;
+};
+
+export function getNoteStorageKey(slug: string): string {
+  return slug === "root" ? DEFAULT_STORAGE_KEY : `${NOTE_KEY_PREFIX}${slug}`;
+}
+
+/** Private notes decode to an empty string; see `readStoredValue`. */
+export function decodeStoredValue(rawValue: string | null): string {
+  if (typeof rawValue !== "string" || isEncryptedValue(rawValue)) {
+    return "";
+  }
+  try {
+    const decompressed = decompressFromUTF16(rawValue);
+    if (typeof decompressed === "string") {
+      return decompressed;
+    }
+  } catch {
+    /* ignore malformed compressed content and fall back to raw value */
+  }
+  return rawValue;
+}
+
+export function isNoteEncrypted(storageKey: string): boolean {
+  return encryptedStorageKeys.has(storageKey);
+}
+
+export function isNoteLocked(storageKey: string): boolean {
+  return encryptedStorageKeys.has(storageKey) && !noteKeys.has(storageKey);
+}
+
+/**
+ * Resolves with false when the browser refused the write. Unlocked private
+ * notes are encrypted; locked ones are never overwritten with plain text.
+ * Values that are already encrypted, like a restored backup, are kept as is.
+ */
+export async function writeStoredValue(
+  storageKey: string,
+  value: string
+): Promise<boolean> {
+  const noteKey = noteKeys.get(storageKey);
+  const isPassthrough = isEncryptedValue(value);
+  if (!noteKey && !isPassthrough && encryptedStorageKeys.has(storageKey)) {
+    console.warn(`Refusing to overwrite locked note "${storageKey}"`);
+    return false;
+  }
+  try {
+    const payload = isPassthrough
+      ? value
+      : noteKey
+        ? await encryptInOrder(storageKey, noteKey, value)
+        : compressToUTF16(value);
+    await storage.setItem(storageKey, payload);
+    if (isPassthrough) {
+      observeStoredValue(storageKey, payload);
+    }
+    return true;
+  } catch (error) {
+    console.error("Unable to persist note content", error);
+    reportStorageWriteFailure(storageKey, error);
+    return false;
+  }
+}
+
+export async function readStoredValue(storageKey: string): Promise<string> {
+  try {
+    const storedValue = await storage.getItem<string>(storageKey);
+    observeStoredValue(storageKey, storedValue);
+    if (storedValue === null) {
+      return "";
+    }
+    const noteKey = noteKeys.get(storageKey);
+    if (isEncryptedValue(storedValue)) {
+      if (!noteKey) {
+        return "";
+      }
+      const content = await decryptValue(noteKey, storedValue);
+      if (content === null) {
+        // The passphrase was changed in another tab.
+        noteKeys.delete(storageKey);
+        return "";
+      }
+      return content;
+    }
+    return decodeStoredValue(storedValue);
+  } catch (error) {
+    console.error("Unable to read stored note content", error);
+    return "";
+  }
+}
+
+/**
+ * Opens a private note for this tab. Resolves with its content, or null
+ * when the passphrase is wrong.
+ */
+export async function unlockStoredValue(
+  storageKey: string,
+  passphrase: string
+): Promise<string | null> {
+  let storedValue: string | null;
+  try {
+    storedValue = await storage.getItem<string>(storageKey);
+  } catch (error) {
+    console.error("Unable to read stored note content", error);
+    return null;
+  }
+  observeStoredValue(storageKey, storedValue);
+  if (!isEncryptedValue(storedValue)) {
+    return decodeStoredValue(storedValue);
+  }
+  const unlocked = await unlockValue(storedValue, passphrase);
+  if (!unlocked) {
+    return null;
+  }
+  noteKeys.set(storageKey, unlocked.noteKey);
+  return unlocked.content;
+}
+
+/** Encrypts a note under a new passphrase; false when it wasn't saved. */
+export async function protectStoredValue(
+  storageKey: string,
+  passphrase: string,
+  value: string
+): Promise<boolean> {
+  let noteKey: NoteKey;
+  try {
+    noteKey = await deriveNoteKey(passphrase);
+  } catch (error) {
+    console.error("Unable to derive the note key", error);
+    return false;
+  }
+  noteKeys.set(storageKey, noteKey);
+  encryptedStorageKeys.add(storageKey);
+  if (await writeStoredValue(storageKey, value)) {
+    return true;
+  }
+  noteKeys.delete(storageKey);
+  encryptedStorageKeys.delete(storageKey);
+  return false;
+}
+
+/** Stores an unlocked private note as plain content again. */
+export async function unprotectStoredValue(
+  storageKey: string,
+  value: string
+): Promise<boolean> {
+  const noteKey = noteKeys.get(storageKey);
+  if (!noteKey) {
+    return false;
+  }
+  noteKeys.delete(storageKey);
+  encryptedStorageKeys.delete(storageKey);
+  if (await writeStoredValue(storageKey, value)) {
+    return true;
+  }
+  noteKeys.set(storageKey, noteKey);
+  encryptedStorageKeys.add(storageKey);
+  return false;
+}
+
+/** Forgets the key, so the note needs its passphrase again. */
+export function lockStoredValue(storageKey: string): void {
+  noteKeys.delete(storageKey);
+}
+
+/** Carries an unlocked key over when a note is saved under a new key. */
+export function moveStoredValueKey(from: string, to: string): void {
+  const noteKey = noteKeys.get(from);
+  if (encryptedStorageKeys.delete(from)) {
+    encryptedStorageKeys.add(to);
+  }
+  if (noteKey) {
+    noteKeys.delete(from);
+    noteKeys.set(to, noteKey);
+  }
+}
+
+export async function removeStoredValue(storageKey: string): Promise<void> {
+  observeStoredValue(storageKey, null);
+  try {
+    await storage.removeItem(storageKey);
+  } catch (error) {
+    console.error("Unable to remove stored note content", error);
+  }
+}
@@ -0,0 +1,155 @@
+import { NOTE_TEMPLATES_STORAGE_KEY } from "../constants.ts";
+import storage from "../storage.ts";
+import { reportStorageWriteFailure } from "./storageFailures.ts";
+
+/**
+ * Templates are note markup with `{{date}}`, `{{time}}` and `{{title}}`
+ * placeholders, filled in when a note is created from them. They are kept
+ * as one JSON string in the notes store, so backups carry them along.
+ */
+export type NoteTemplate = {
+  id: string;
+  name: string;
+  content: string;
+  updatedAt: number;
+};
+
+export type TemplateValues = {
+  title: string;
+  now?: Date;
+};
+
+const DEFAULT_TEMPLATES: NoteTemplate[] = [
+  {
+    id: "meeting-notes",
+    name: "Meeting notes",
+    content:
+      '<h2>{{title}}</h2><div>{{date}} at {{time}}</div><div><b>Attendees</b></div><ul><li><br></li></ul><div><b>Notes</b></div><ul><li><br></li></ul><div><b>Action items</b></div><div data-task="todo"><br></div>',
+    updatedAt: 0,
+  },
+  {
+    id: "standup",
+    name: "Standup",
+    content:
+      "<h2>Standup {{date}}</h2><div><b>Yesterday</b></div><ul><li><br></li></ul><div><b>Today</b></div><ul><li><br></li></ul><div><b>Blockers</b></div><ul><li><br></li></ul>",
+    updatedAt: 0,
+  },
+  {
+    id: "bug-report",
+    name: "Bug report",
+    content:
+      "<h2>{{title}}</h2><div>Reported on {{date}}</div><div><b>Steps to reproduce</b></div><ol><li><br></li></ol><div><b>Expected</b></div><div><br></div><div><b>Actual</b></div><div><br></div>",
+    updatedAt: 0,
+  },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(date|time|title)\s*\}\}/gi;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+const escapeHtml = (text: string) => {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+};
+
+const padNumber = (value: number) => String(value).padStart(2, "0");
+
+const createTemplateId = () => {
+  const random = Math.floor(Math.random() * 0xffffff).toString(36);
+  return `tpl-${Date.now().toString(36)}-${random}`;
+};
+
+const parseTemplates = (rawValue: string): NoteTemplate[] => {
+  const parsed: unknown = JSON.parse(rawValue);
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+  return parsed.filter(
+    (value): value is NoteTemplate =>
+      isPlainObject(value) &&
+      typeof value.id === "string" &&
+      typeof value.name === "string" &&
+      typeof value.content === "string" &&
+      typeof value.updatedAt === "number"
+  );
+};
+
+/** Saved templates by name. The defaults stand in until one is changed. */
+export async function loadNoteTemplates(): Promise<NoteTemplate[]> {
+  try {
+    const rawValue = await storage.getItem<string>(NOTE_TEMPLATES_STORAGE_KEY);
+    const templates =
+      typeof rawValue === "string"
+        ? parseTemplates(rawValue)
+        : DEFAULT_TEMPLATES;
+    return [...templates].sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Unable to read note templates", error);
+    return [];
+  }
+}
+
+async function writeTemplates(templates: NoteTemplate[]): Promise<boolean> {
+  try {
+    await storage.setItem(
+      NOTE_TEMPLATES_STORAGE_KEY,
+      JSON.stringify(templates)
+    );
+    return true;
+  } catch (error) {
+    console.error("Unable to persist note templates", error);
+    reportStorageWriteFailure(NOTE_TEMPLATES_STORAGE_KEY, error);
+    return false;
+  }
+}
+
+/**
+ * Saves markup as a template. A template with the same name is replaced.
+ * Resolves with false when it was not saved.
+ */
+export async function saveNoteTemplate(
+  name: string,
+  content: string
+): Promise<boolean> {
+  const templates = await loadNoteTemplates();
+  const existing = templates.find(
+    (template) => template.name.toLowerCase() === name.toLowerCase()
+  );
+  const template: NoteTemplate = {
+    id: existing?.id ?? createTemplateId(),
+    name,
+    content,
+    updatedAt: Date.now(),
+  };
+  return writeTemplates([
+    ...templates.filter((candidate) => candidate.id !== template.id),
+    template,
+  ]);
+}
+
+export async function deleteNoteTemplate(id: string): Promise<boolean> {
+  const templates = await loadNoteTemplates();
+  return writeTemplates(templates.filter((template) => template.id !== id));
+}
+
+/** Fills in the placeholders; the title is escaped for markup. */
+export function expandTemplate(
+  content: string,
+  { title, now = new Date() }: TemplateValues
+): string {
+  const values: Record<string, string> = {
+    date: `${now.getFullYear()}-${padNumber(now.getMonth() + 1)}-${padNumber(
+      now.getDate()
+    )}`,
+    time: `${padNumber(now.getHours())}:${padNumber(now.getMinutes())}`,
+    title: escapeHtml(title),
+  };
+  return content.replace(
+    PLACEHOLDER_PATTERN,
+    (_match, name: string) => values[name.toLowerCase()] ?? ""
+  );
+}
@@ -0,0 +1,292 @@
+import storage, { trashStorage } from "../storage.ts";
+import { indexNoteLinks, removeNoteLinks } from "./backlinks.ts";
+import { extractHashtags } from "./hashtags.ts";
+import { isEncryptedValue } from "./noteCrypto.ts";
+import { deleteNoteHistory } from "./noteHistory.ts";
+import {
+  deleteNoteMetadata,
+  loadNoteMetadataMap,
+  saveNoteMetadata,
+  type NoteMetadata,
+} from "./noteMetadata.ts";
+import {
+  decodeStoredValue,
+  getNoteStorageKey,
+  removeStoredValue,
+} from "./noteStorage.ts";
+import {
+  extractSearchableText,
+  indexNoteContent,
+  removeNoteFromIndex,
+} from "./searchIndex.ts";
+import { doesSlugExist, findAvailableSlug } from "./slug.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRASH_RETENTION_DAYS = 30;
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * DAY_MS;
+
+export type TrashedNote = {
+  id: string;
+  slug: string;
+  title: string;
+  deletedAt: number;
+  expiresAt: number;
+};
+
+type StoredTrashEntry = {
+  id: string;
+  slug: string;
+  deletedAt: number;
+  /** Note content exactly as it was stored, still compressed. */
+  data: string;
+  metadata: NoteMetadata | null;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+const createTrashId = (slug: string, deletedAt: number) => {
+  const random = Math.floor(Math.random() * 0xffffff).toString(36);
+  return `${slug}:${deletedAt.toString(36)}-${random}`;
+};
+
+const parseEntry = (value: unknown): StoredTrashEntry | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    if (
+      !isPlainObject(parsed) ||
+      typeof parsed.id !== "string" ||
+      typeof parsed.slug !== "string" ||
+      typeof parsed.deletedAt !== "number" ||
+      typeof parsed.data !== "string"
+    ) {
+      return null;
+    }
+    return {
+      id: parsed.id,
+      slug: parsed.slug,
+      deletedAt: parsed.deletedAt,
+      data: parsed.data,
+      metadata: isPlainObject(parsed.metadata)
+        ? (parsed.metadata as NoteMetadata)
+        : null,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const getTitle = (entry: StoredTrashEntry) => {
+  return entry.metadata?.title || entry.slug.replace(/[_-]/g, " ");
+};
+
+const toTrashedNote = (entry: StoredTrashEntry): TrashedNote => ({
+  id: entry.id,
+  slug: entry.slug,
+  title: getTitle(entry),
+  deletedAt: entry.deletedAt,
+  expiresAt: entry.deletedAt + TRASH_RETENTION_MS,
+});
+
+async function readEntries(): Promise<StoredTrashEntry[]> {
+  const entries: StoredTrashEntry[] = [];
+  try {
+    await trashStorage.iterate<unknown, void>((value) => {
+      const entry = parseEntry(value);
+      if (entry) {
+        entries.push(entry);
+      }
+    });
+  } catch (error) {
+    console.error("Unable to read the trash", error);
+  }
+  return entries;
+}
+
+async function readEntry(id: string): Promise<StoredTrashEntry | null> {
+  try {
+    return parseEntry(await trashStorage.getItem<string>(id));
+  } catch (error) {
+    console.error(`Unable to read trashed note "${id}"`, error);
+    return null;
+  }
+}
+
+/**
+ * Drops the history of a purged note, unless the slug is in use again or
+ * another trashed copy may still be restored with it.
+ */
+async function releaseHistory(slug: string): Promise<void> {
+  const entries = await readEntries();
+  if (entries.some((entry) => entry.slug === slug)) {
+    return;
+  }
+  if (await doesSlugExist(slug)) {
+    return;
+  }
+  await deleteNoteHistory(slug);
+}
+
+let pendingOperation: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+  const result = pendingOperation.then(operation, operation);
+  pendingOperation = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Moves a stored note into the trash and clears it from the library.
+ * Resolves with the trash entry, or null when there was nothing to trash
+ * (leftover metadata is cleared) or the trash could not be written.
+ */
+export function moveNoteToTrash(slug: string): Promise<TrashedNote | null> {
+  return enqueue(async () => {
+    const storageKey = getNoteStorageKey(slug);
+    let data: string | null;
+    try {
+      data = await storage.getItem<string>(storageKey);
+    } catch (error) {
+      console.error(`Unable to read note "${slug}" for the trash`, error);
+      return null;
+    }
+    if (data === null) {
+      await deleteNoteMetadata(slug);
+      return null;
+    }
+
+    const metadataMap = await loadNoteMetadataMap();
+    const deletedAt = Date.now();
+    const entry: StoredTrashEntry = {
+      id: createTrashId(slug, deletedAt),
+      slug,
+      deletedAt,
+      data,
+      metadata: metadataMap[slug] ?? null,
+    };
+    try {
+      await trashStorage.setItem(entry.id, JSON.stringify(entry));
+    } catch (error) {
+      // Never remove a note whose copy did not make it into the trash.
+      console.error(`Unable to move note "${slug}" to the trash`, error);
+      return null;
+    }
+
+    await removeStoredValue(storageKey);
+    await deleteNoteMetadata(slug);
+    void removeNoteFromIndex(slug);
+    void removeNoteLinks(slug);
+
+    return toTrashedNote(entry);
+  });
+}
+
+export async function findTrashedNote(id: string): Promise<TrashedNote | null> {
+  const entry = await readEntry(id);
+  return entry ? toTrashedNote(entry) : null;
+}
+
+/** Trashed notes, newest first. Entries past the retention are purged. */
+export function loadTrash(now = Date.now()): Promise<TrashedNote[]> {
+  return enqueue(async () => {
+    const entries = await readEntries();
+    const kept: TrashedNote[] = [];
+    for (const entry of entries) {
+      const trashed = toTrashedNote(entry);
+      if (trashed.expiresAt <= now) {
+        try {
+          await trashStorage.removeItem(entry.id);
+          await releaseHistory(entry.slug);
+        } catch (error) {
+          // Tried again on the next load; the rest of the trash still shows.
+          console.error(`Unable to purge trashed note "${entry.id}"`, error);
+        }
+        continue;
+      }
+      kept.push(trashed);
+    }
+    return kept.sort((a, b) => b.deletedAt - a.deletedAt);
+  });
+}
+
+/**
+ * Stored content of every trashed note, for reference checks. Null when a
+ * private note hides what it refers to.
+ */
+export function loadTrashedContents(): Promise<string[] | null> {
+  return enqueue(async () => {
+    const entries = await readEntries();
+    if (entries.some((entry) => isEncryptedValue(entry.data))) {
+      return null;
+    }
+    return entries.map((entry) => decodeStoredValue(entry.data));
+  });
+}
+
+export type RestoreTrashedNoteOptions = {
+  /** Writes over a note stored under the slug since, like the open note. */
+  replace?: boolean;
+};
+
+/**
+ * Puts a trashed note back. When its slug was taken in the meantime the
+ * note comes back under the next free `slug-2` style key, unless `replace`
+ * is set. Resolves with the slug it was restored to.
+ */
+export function restoreTrashedNote(
+  id: string,
+  { replace = false }: RestoreTrashedNoteOptions = {}
+): Promise<string | null> {
+  return enqueue(async () => {
+    const entry = await readEntry(id);
+    if (!entry) {
+      return null;
+    }
+    const slug =
+      !replace && (await doesSlugExist(entry.slug))
+        ? await findAvailableSlug(entry.slug)
+        : entry.slug;
+
+    await storage.setItem(getNoteStorageKey(slug), entry.data);
+    const content = decodeStoredValue(entry.data);
+    await saveNoteMetadata({
+      slug,
+      title: getTitle(entry),
+      updatedAt: entry.metadata?.updatedAt ?? entry.deletedAt,
+      createdAt: entry.metadata?.createdAt,
+      pinned: entry.metadata?.pinned,
+      tags: extractHashtags(extractSearchableText(content)),
+      encrypted: isEncryptedValue(entry.data),
+    });
+    await trashStorage.removeItem(id);
+    void indexNoteContent(slug, content);
+    void indexNoteLinks(slug, content);
+    return slug;
+  });
+}
+
+export function purgeTrashedNote(id: string): Promise<void> {
+  return enqueue(async () => {
+    const entry = await readEntry(id);
+    await trashStorage.removeItem(id);
+    if (entry) {
+      await releaseHistory(entry.slug);
+    }
+  });
+}
+
+export function emptyTrash(): Promise<void> {
+  return enqueue(async () => {
+    const entries = await readEntries();
+    await trashStorage.clear();
+    const slugs = new Set(entries.map((entry) => entry.slug));
+    for (const slug of slugs) {
+      await releaseHistory(slug);
+    }
+  });
+}
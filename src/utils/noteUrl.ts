@@ -0,0 +1,55 @@
+/** Public URL of a note; the root note lives at the origin itself. */
+export function getNoteUrl(slug: string): string {
+  if (slug === "root") {
+    return `${window.location.origin}/`;
+  }
+  return `${window.location.origin}/${encodeURIComponent(slug)}`;
+}
+
+/** Address of a note in this app, as used for in-app navigation. */
+export function getNoteLocation(slug: string): string {
+  if (slug === "root") {
+    return "/";
+  }
+  return `/?s=${encodeURIComponent(slug)}`;
+}
+
+/**
+ * Resolves a link back to the note it points at. Accepts both the public
+ * `/slug` form and the `/?s=slug` form the dev server redirects to, and
+ * returns null for links that leave the app.
+ */
+export function getSlugFromNoteUrl(href: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(href, window.location.origin);
+  } catch {
+    return null;
+  }
+  if (url.origin !== window.location.origin) {
+    return null;
+  }
+
+  const scope = url.searchParams.get("s");
+  if (scope) {
+    return scope;
+  }
+
+  const path = url.pathname.replace(/^\/+|\/+$/g, "");
+  if (!path) {
+    return "root";
+  }
+  if (path.includes("/") || path.includes(".")) {
+    return null;
+  }
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return null;
+  }
+}
+
+export function getActiveSlug(): string {
+  const params = new URLSearchParams(window.location.search);
+  return params.get("s") ?? "root";
+}
@@ -0,0 +1,333 @@
+import { compressToUTF16, decompressFromUTF16 } from "lz-string";
+import { searchStorage } from "../storage.ts";
+
+export type SearchSnippetPart = {
+  text: string;
+  highlighted: boolean;
+};
+
+export type SearchResult = {
+  slug: string;
+  score: number;
+  snippet: SearchSnippetPart[];
+};
+
+type SearchDocument = {
+  slug: string;
+  text: string;
+  length: number;
+};
+
+type SearchIndexState = {
+  documents: Map<string, SearchDocument>;
+  postings: Map<string, Map<string, number>>;
+};
+
+const SNIPPET_RADIUS = 60;
+const MIN_PREFIX_LENGTH = 2;
+
+let indexState: SearchIndexState | null = null;
+let loadingIndex: Promise<SearchIndexState> | null = null;
+
+const normalizeText = (value: string) => {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+};
+
+export function tokenize(value: string): string[] {
+  return normalizeText(value).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Flattens note markup into searchable text, keeping one line per block.
+ */
+export function extractSearchableText(markup: string): string {
+  if (!markup) {
+    return "";
+  }
+  const scratch = document.createElement("div");
+  scratch.innerHTML = markup;
+  const lines: string[] = [];
+  scratch.childNodes.forEach((node) => {
+    const text = (node.textContent ?? "").replace(/\u200b/gi, "").trim();
+    if (text) {
+      lines.push(text);
+    }
+  });
+  return lines.join("\n");
+}
+
+const countTerms = (text: string) => {
+  const counts = new Map<string, number>();
+  for (const term of tokenize(text)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+};
+
+const addToPostings = (state: SearchIndexState, document: SearchDocument) => {
+  countTerms(document.text).forEach((count, term) => {
+    let posting = state.postings.get(term);
+    if (!posting) {
+      posting = new Map();
+      state.postings.set(term, posting);
+    }
+    posting.set(document.slug, count);
+  });
+};
+
+const removeFromPostings = (state: SearchIndexState, slug: string) => {
+  const existing = state.documents.get(slug);
+  if (!existing) {
+    return;
+  }
+  countTerms(existing.text).forEach((_count, term) => {
+    const posting = state.postings.get(term);
+    posting?.delete(slug);
+    if (posting && !posting.size) {
+      state.postings.delete(term);
+    }
+  });
+};
+
+const upsertDocument = (
+  state: SearchIndexState,
+  slug: string,
+  text: string
+) => {
+  removeFromPostings(state, slug);
+  const document: SearchDocument = {
+    slug,
+    text,
+    length: tokenize(text).length,
+  };
+  state.documents.set(slug, document);
+  addToPostings(state, document);
+};
+
+async function readIndexState(): Promise<SearchIndexState> {
+  const state: SearchIndexState = { documents: new Map(), postings: new Map() };
+  try {
+    await searchStorage.iterate<string, void>((value, slug) => {
+      if (typeof value !== "string") return;
+      try {
+        const text = decompressFromUTF16(value);
+        if (typeof text === "string") {
+          upsertDocument(state, slug, text);
+        }
+      } catch {
+        /* ignore malformed compressed content */
+      }
+    });
+  } catch (error) {
+    console.error("Unable to read the search index", error);
+  }
+  return state;
+}
+
+async function getIndexState(): Promise<SearchIndexState> {
+  if (indexState) {
+    return indexState;
+  }
+  if (!loadingIndex) {
+    loadingIndex = readIndexState().then((state) => {
+      indexState = state;
+      loadingIndex = null;
+      return state;
+    });
+  }
+  return loadingIndex;
+}
+
+/**
+ * Drops the in-memory copy so the next search picks up saves made by other
+ * tabs.
+ */
+export function invalidateSearchIndex(): void {
+  indexState = null;
+}
+
+export async function indexNoteContent(
+  slug: string,
+  markup: string
+): Promise<void> {
+  const text = extractSearchableText(markup);
+  if (indexState) {
+    upsertDocument(indexState, slug, text);
+  }
+  try {
+    await searchStorage.setItem(slug, compressToUTF16(text));
+  } catch (error) {
+    console.error(`Unable to index note "${slug}"`, error);
+  }
+}
+
+export async function removeNoteFromIndex(slug: string): Promise<void> {
+  if (indexState) {
+    removeFromPostings(indexState, slug);
+    indexState.documents.delete(slug);
+  }
+  try {
+    await searchStorage.removeItem(slug);
+  } catch (error) {
+    console.error(
+      `Unable to remove note "${slug}" from the search index`,
+      error
+    );
+  }
+}
+
+/**
+ * Indexes notes that were saved before the search index existed.
+ */
+export async function ensureNotesIndexed(
+  slugs: string[],
+  loadMarkup: (slug: string) => Promise<string>
+): Promise<void> {
+  const state = await getIndexState();
+  const missing = slugs.filter((slug) => !state.documents.has(slug));
+  for (const slug of missing) {
+    const markup = await loadMarkup(slug);
+    if (markup) {
+      await indexNoteContent(slug, markup);
+    }
+  }
+}
+
+const findMatchingTerms = (
+  state: SearchIndexState,
+  queryTerm: string,
+  allowPrefix: boolean
+) => {
+  const matches: { term: string; exact: boolean }[] = [];
+  if (state.postings.has(queryTerm)) {
+    matches.push({ term: queryTerm, exact: true });
+  }
+  if (allowPrefix && queryTerm.length >= MIN_PREFIX_LENGTH) {
+    state.postings.forEach((_posting, term) => {
+      if (term !== queryTerm && term.startsWith(queryTerm)) {
+        matches.push({ term, exact: false });
+      }
+    });
+  }
+  return matches;
+};
+
+const normalizeWithOffsets = (text: string) => {
+  let normalized = "";
+  const offsets: number[] = [];
+  let index = 0;
+  for (const character of text) {
+    const folded = normalizeText(character);
+    for (let i = 0; i < folded.length; i += 1) {
+      offsets.push(index);
+    }
+    normalized += folded;
+    index += character.length;
+  }
+  offsets.push(index);
+  return { normalized, offsets };
+};
+
+const buildSnippet = (text: string, queryTerms: string[]) => {
+  const { normalized, offsets } = normalizeWithOffsets(text);
+  const ranges: { start: number; end: number }[] = [];
+  for (const term of queryTerms) {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`,
+      "gu"
+    );
+    for (const match of normalized.matchAll(pattern)) {
+      ranges.push({
+        start: offsets[match.index],
+        end: offsets[match.index + term.length],
+      });
+    }
+  }
+  ranges.sort((a, b) => a.start - b.start);
+
+  const first = ranges[0];
+  const windowStart = first ? Math.max(0, first.start - SNIPPET_RADIUS) : 0;
+  const windowEnd = Math.min(
+    text.length,
+    (first?.end ?? 0) + SNIPPET_RADIUS * 2
+  );
+
+  const parts: SearchSnippetPart[] = [];
+  const pushText = (value: string, highlighted: boolean) => {
+    if (!value) return;
+    parts.push({ text: value.replace(/\n+/g, " · "), highlighted });
+  };
+
+  if (windowStart > 0) {
+    pushText("…", false);
+  }
+  let cursor = windowStart;
+  for (const range of ranges) {
+    if (range.start < cursor) continue;
+    if (range.end > windowEnd) break;
+    pushText(text.slice(cursor, range.start), false);
+    pushText(text.slice(range.start, range.end), true);
+    cursor = range.end;
+  }
+  pushText(text.slice(cursor, windowEnd), false);
+  if (windowEnd < text.length) {
+    pushText("…", false);
+  }
+  return parts;
+};
+
+/**
+ * Ranks notes containing every query term (the last one as a prefix, so
+ * results update while typing) using a TF-IDF score.
+ */
+export async function searchNotes(query: string): Promise<SearchResult[]> {
+  const queryTerms = tokenize(query);
+  if (!queryTerms.length) {
+    return [];
+  }
+
+  const state = await getIndexState();
+  const documentCount = Math.max(state.documents.size, 1);
+  const scores = new Map<string, number>();
+
+  for (const [position, queryTerm] of queryTerms.entries()) {
+    const isLast = position === queryTerms.length - 1;
+    const termScores = new Map<string, number>();
+    for (const { term, exact } of findMatchingTerms(state, queryTerm, isLast)) {
+      const posting = state.postings.get(term);
+      if (!posting) continue;
+      const idf = Math.log(1 + documentCount / posting.size);
+      const weight = exact ? 1 : 0.6;
+      posting.forEach((count, slug) => {
+        const document = state.documents.get(slug);
+        const length = Math.max(document?.length ?? 1, 1);
+        const score = (count / Math.sqrt(length)) * idf * weight;
+        termScores.set(slug, Math.max(termScores.get(slug) ?? 0, score));
+      });
+    }
+
+    if (position === 0) {
+      termScores.forEach((score, slug) => scores.set(slug, score));
+    } else {
+      for (const slug of [...scores.keys()]) {
+        const score = termScores.get(slug);
+        if (score === undefined) {
+          scores.delete(slug);
+        } else {
+          scores.set(slug, (scores.get(slug) ?? 0) + score);
+        }
+      }
+    }
+  }
+
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([slug, score]) => ({
+      slug,
+      score,
+      snippet: buildSnippet(state.documents.get(slug)?.text ?? "", queryTerms),
+    }));
+}
@@ -0,0 +1,86 @@
+import {
+  compressToEncodedURIComponent,
+  decompressFromEncodedURIComponent,
+} from "lz-string";
+import { IMAGE_ID_ATTRIBUTE, stripImageSources } from "./imageStore.ts";
+import { getNoteUrl } from "./noteUrl.ts";
+
+/**
+ * A share link carries the whole note in its fragment, which browsers never
+ * send to a server. Opening it offers to import the note.
+ */
+const SHARE_FRAGMENT_PREFIX = "#share=";
+const SHARE_LINK_VERSION = 1;
+
+/** Chat apps and mail clients start cutting links off around this length. */
+export const LONG_SHARE_LINK_LENGTH = 8000;
+
+type SharedNotePayload = {
+  version: number;
+  content: string;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+/** Stored pictures only exist on this device, so they are left out. */
+const removeStoredImages = (markup: string) => {
+  const scratch = document.createElement("div");
+  scratch.innerHTML = stripImageSources(markup);
+  scratch
+    .querySelectorAll(`img[${IMAGE_ID_ATTRIBUTE}]`)
+    .forEach((image) => image.remove());
+  return scratch.innerHTML;
+};
+
+/** Expects sanitized markup. */
+export function createShareLink(markup: string): string {
+  const payload: SharedNotePayload = {
+    version: SHARE_LINK_VERSION,
+    content: removeStoredImages(markup),
+  };
+  return `${getNoteUrl("root")}${SHARE_FRAGMENT_PREFIX}${compressToEncodedURIComponent(
+    JSON.stringify(payload)
+  )}`;
+}
+
+export function hasSharedNote(hash = window.location.hash): boolean {
+  return hash.startsWith(SHARE_FRAGMENT_PREFIX);
+}
+
+/**
+ * The markup a share link carries, or null when the fragment is not a share
+ * link or was cut off. The markup still needs sanitizing before use.
+ */
+export function readSharedNote(hash = window.location.hash): string | null {
+  if (!hasSharedNote(hash)) {
+    return null;
+  }
+  try {
+    const decompressed = decompressFromEncodedURIComponent(
+      hash.slice(SHARE_FRAGMENT_PREFIX.length)
+    );
+    if (!decompressed) {
+      return null;
+    }
+    const parsed: unknown = JSON.parse(decompressed);
+    if (
+      !isPlainObject(parsed) ||
+      parsed.version !== SHARE_LINK_VERSION ||
+      typeof parsed.content !== "string"
+    ) {
+      return null;
+    }
+    return parsed.content;
+  } catch (error) {
+    console.warn("Unable to read shared note from link", error);
+    return null;
+  }
+}
+
+/** Drops the fragment without adding a history entry. */
+export function clearSharedNoteFragment(): void {
+  const { pathname, search } = window.location;
+  window.history.replaceState(window.history.state, "", `${pathname}${search}`);
+}
@@ -0,0 +1,42 @@
+import storage from "../storage.ts";
+import { getNoteStorageKey } from "./noteStorage.ts";
+
+const RESERVED_KEYS = new Set(["", "root"]);
+
+export const isReservedSlug = (slug: string) => RESERVED_KEYS.has(slug);
+
+export const slugify = (value: string) => {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9-\s]/g, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+};
+
+export const doesSlugExist = async (slug: string): Promise<boolean> => {
+  try {
+    const value = await storage.getItem<string>(getNoteStorageKey(slug));
+    return value !== null;
+  } catch (error) {
+    console.warn("Unable to read storage to verify note key", error);
+    return false;
+  }
+};
+
+/** First free `slug-2`, `slug-3`, … that is neither stored nor in `reserved`. */
+export const findAvailableSlug = async (
+  slug: string,
+  reserved: Set<string> = new Set()
+): Promise<string> => {
+  for (let suffix = 2; suffix < 1000; suffix += 1) {
+    const candidate = `${slug}-${suffix}`;
+    if (reserved.has(candidate)) continue;
+    const existing = await storage.getItem(getNoteStorageKey(candidate));
+    if (existing === null) {
+      return candidate;
+    }
+  }
+  return `${slug}-${Date.now().toString(36)}`;
+};
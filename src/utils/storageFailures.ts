@@ -0,0 +1,44 @@
+export type StorageWriteFailure = {
+  storageKey: string;
+  /** The browser refused the write because the storage quota is used up. */
+  quotaExceeded: boolean;
+};
+
+type StorageWriteFailureListener = (failure: StorageWriteFailure) => void;
+
+const listeners = new Set<StorageWriteFailureListener>();
+
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof Error) && !(error instanceof DOMException)) {
+    return false;
+  }
+  return (
+    error.name === "QuotaExceededError" ||
+    error.name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    (error instanceof DOMException && error.code === 22)
+  );
+}
+
+/** Lets the UI know a write was lost; the caller still logs the error. */
+export function reportStorageWriteFailure(
+  storageKey: string,
+  error: unknown
+): void {
+  const failure = { storageKey, quotaExceeded: isQuotaExceededError(error) };
+  listeners.forEach((listener) => {
+    try {
+      listener(failure);
+    } catch (listenerError) {
+      console.error("Storage failure listener failed", listenerError);
+    }
+  });
+}
+
+export function onStorageWriteFailure(
+  listener: StorageWriteFailureListener
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
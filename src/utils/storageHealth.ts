@@ -0,0 +1,112 @@
+import { NOTE_INDEX_STORAGE_KEY, NOTE_KEY_PREFIX } from "../constants.ts";
+import storage from "../storage.ts";
+import { extractImageIds, loadImageSizes } from "./imageStore.ts";
+import { loadNoteMetadataMap } from "./noteMetadata.ts";
+import { decodeStoredValue } from "./noteStorage.ts";
+
+export type StorageEstimate = {
+  usage: number;
+  quota: number;
+};
+
+export type NoteSize = {
+  slug: string;
+  title: string;
+  /** Stored note content plus the images it shows. */
+  bytes: number;
+};
+
+/** Usage above this share of the quota is worth a warning. */
+export const STORAGE_WARNING_RATIO = 0.9;
+
+const BYTE_UNITS = ["B", "KB", "MB", "GB"];
+
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unitIndex += 1;
+  }
+  const digits = unitIndex === 0 || value >= 10 ? 0 : 1;
+  return `${value.toFixed(digits)} ${BYTE_UNITS[unitIndex]}`;
+}
+
+/** What the browser reports for this site, or null when it can't tell. */
+export async function estimateStorage(): Promise<StorageEstimate | null> {
+  if (typeof navigator.storage?.estimate !== "function") {
+    return null;
+  }
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    if (typeof usage !== "number" || typeof quota !== "number" || !quota) {
+      return null;
+    }
+    return { usage, quota };
+  } catch (error) {
+    console.error("Unable to estimate storage usage", error);
+    return null;
+  }
+}
+
+export async function isStoragePersisted(): Promise<boolean> {
+  if (typeof navigator.storage?.persisted !== "function") {
+    return false;
+  }
+  try {
+    return await navigator.storage.persisted();
+  } catch (error) {
+    console.error("Unable to check storage persistence", error);
+    return false;
+  }
+}
+
+/**
+ * Asks the browser not to clear this site's data under storage pressure.
+ * Some browsers decide on their own, others ask the user.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator.storage?.persist !== "function") {
+    return false;
+  }
+  try {
+    return await navigator.storage.persist();
+  } catch (error) {
+    console.error("Unable to request persistent storage", error);
+    return false;
+  }
+}
+
+/** Every stored note with its size on disk, largest first. */
+export async function loadNoteSizes(): Promise<NoteSize[]> {
+  const [metadataMap, imageSizes] = await Promise.all([
+    loadNoteMetadataMap(),
+    loadImageSizes(),
+  ]);
+  const sizes: NoteSize[] = [];
+  try {
+    await storage.iterate<unknown, void>((value, key) => {
+      if (key === NOTE_INDEX_STORAGE_KEY || !key.startsWith(NOTE_KEY_PREFIX)) {
+        return;
+      }
+      if (typeof value !== "string") {
+        return;
+      }
+      const slug = key.slice(NOTE_KEY_PREFIX.length);
+      const imageIds = new Set(extractImageIds(decodeStoredValue(value)));
+      const imageBytes = [...imageIds].reduce(
+        (total, id) => total + (imageSizes.get(id) ?? 0),
+        0
+      );
+      sizes.push({
+        slug,
+        title: metadataMap[slug]?.title || slug,
+        // Stored strings are UTF-16, two bytes per code unit.
+        bytes: value.length * 2 + imageBytes,
+      });
+    });
+  } catch (error) {
+    console.error("Unable to measure stored notes", error);
+  }
+  return sizes.sort((a, b) => b.bytes - a.bytes);
+}
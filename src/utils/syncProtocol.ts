@@ -0,0 +1,190 @@
+export const SYNC_PROTOCOL_VERSION = 1;
+
+export type NoteUpdateMessage = {
+  type: "note-update";
+  version: typeof SYNC_PROTOCOL_VERSION;
+  slug: string;
+  revision: number;
+  origin: string;
+  timestamp: number;
+  value: string;
+};
+
+export type NoteRenameMessage = {
+  type: "note-rename";
+  version: typeof SYNC_PROTOCOL_VERSION;
+  from: string;
+  to: string;
+  origin: string;
+  timestamp: number;
+};
+
+/** A note became private or public; other tabs re-read it from storage. */
+export type NotePrivacyMessage = {
+  type: "note-privacy";
+  version: typeof SYNC_PROTOCOL_VERSION;
+  slug: string;
+  origin: string;
+  timestamp: number;
+};
+
+export type SyncMessage =
+  NoteUpdateMessage | NoteRenameMessage | NotePrivacyMessage;
+
+export type RevisionStamp = {
+  revision: number;
+  origin: string;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+};
+
+const createTabId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
+
+/** Identifies this tab (and its PiP window) as the origin of messages. */
+export const TAB_ID = createTabId();
+
+let lastIssuedRevision = 0;
+
+/**
+ * Hybrid logical clock: revisions follow wall-clock time but never go
+ * backwards, so a freshly opened tab does not need to learn the current
+ * revision before its edits win over older ones.
+ */
+export function nextRevision(): number {
+  lastIssuedRevision = Math.max(Date.now(), lastIssuedRevision + 1);
+  return lastIssuedRevision;
+}
+
+export function observeRevision(revision: number): void {
+  lastIssuedRevision = Math.max(lastIssuedRevision, revision);
+}
+
+export function createNoteUpdateMessage(
+  slug: string,
+  value: string,
+  revision = nextRevision()
+): NoteUpdateMessage {
+  return {
+    type: "note-update",
+    version: SYNC_PROTOCOL_VERSION,
+    slug,
+    revision,
+    origin: TAB_ID,
+    timestamp: Date.now(),
+    value,
+  };
+}
+
+export function createNoteRenameMessage(
+  from: string,
+  to: string
+): NoteRenameMessage {
+  return {
+    type: "note-rename",
+    version: SYNC_PROTOCOL_VERSION,
+    from,
+    to,
+    origin: TAB_ID,
+    timestamp: Date.now(),
+  };
+}
+
+export function createNotePrivacyMessage(slug: string): NotePrivacyMessage {
+  return {
+    type: "note-privacy",
+    version: SYNC_PROTOCOL_VERSION,
+    slug,
+    origin: TAB_ID,
+    timestamp: Date.now(),
+  };
+}
+
+export function parseSyncMessage(data: unknown): SyncMessage | null {
+  if (!isPlainObject(data) || data.version !== SYNC_PROTOCOL_VERSION) {
+    return null;
+  }
+  if (data.type === "note-update") {
+    const { slug, revision, origin, timestamp, value } = data;
+    if (
+      typeof slug !== "string" ||
+      typeof revision !== "number" ||
+      typeof origin !== "string" ||
+      typeof timestamp !== "number" ||
+      typeof value !== "string"
+    ) {
+      return null;
+    }
+    return {
+      type: "note-update",
+      version: SYNC_PROTOCOL_VERSION,
+      slug,
+      revision,
+      origin,
+      timestamp,
+      value,
+    };
+  }
+  if (data.type === "note-rename") {
+    const { from, to, origin, timestamp } = data;
+    if (
+      typeof from !== "string" ||
+      typeof to !== "string" ||
+      !from ||
+      !to ||
+      typeof origin !== "string" ||
+      typeof timestamp !== "number"
+    ) {
+      return null;
+    }
+    return {
+      type: "note-rename",
+      version: SYNC_PROTOCOL_VERSION,
+      from,
+      to,
+      origin,
+      timestamp,
+    };
+  }
+  if (data.type === "note-privacy") {
+    const { slug, origin, timestamp } = data;
+    if (
+      typeof slug !== "string" ||
+      typeof origin !== "string" ||
+      typeof timestamp !== "number"
+    ) {
+      return null;
+    }
+    return {
+      type: "note-privacy",
+      version: SYNC_PROTOCOL_VERSION,
+      slug,
+      origin,
+      timestamp,
+    };
+  }
+  return null;
+}
+
+/**
+ * Orders two revisions; ties between tabs are broken by origin id so every
+ * tab settles on the same winner.
+ */
+export function isNewerRevision(
+  candidate: RevisionStamp,
+  current: RevisionStamp | null
+): boolean {
+  if (!current) {
+    return true;
+  }
+  if (candidate.revision !== current.revision) {
+    return candidate.revision > current.revision;
+  }
+  return candidate.origin > current.origin;
+}
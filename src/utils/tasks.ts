@@ -0,0 +1,118 @@
+import { recordNoteSnapshot } from "./noteHistory.ts";
+import { loadNoteMetadataMap, saveNoteMetadata } from "./noteMetadata.ts";
+import {
+  getNoteStorageKey,
+  isNoteEncrypted,
+  readStoredValue,
+  writeStoredValue,
+} from "./noteStorage.ts";
+import { indexNoteContent } from "./searchIndex.ts";
+
+/** Checklist items are note lines marked with `data-task="todo|done"`. */
+export const TASK_SELECTOR = "[data-task]";
+
+export type TaskState = "todo" | "done";
+
+export type OpenTask = {
+  /** Position among all checklist items of the note, done ones included. */
+  index: number;
+  text: string;
+};
+
+export type NoteTasks = {
+  slug: string;
+  title: string;
+  updatedAt: number;
+  tasks: OpenTask[];
+};
+
+export const isTaskDone = (element: Element) => {
+  return element.getAttribute("data-task") === "done";
+};
+
+export const setTaskState = (element: Element, state: TaskState) => {
+  element.setAttribute("data-task", state);
+};
+
+const getTaskText = (element: Element) => {
+  return (element.textContent ?? "").replace(/\u200b/g, "").trim();
+};
+
+const parseMarkup = (markup: string) => {
+  const scratch = document.createElement("div");
+  scratch.innerHTML = markup;
+  return scratch;
+};
+
+export function extractOpenTasks(markup: string): OpenTask[] {
+  if (!markup.includes("data-task")) {
+    return [];
+  }
+  const tasks: OpenTask[] = [];
+  parseMarkup(markup)
+    .querySelectorAll(TASK_SELECTOR)
+    .forEach((element, index) => {
+      const text = getTaskText(element);
+      if (!isTaskDone(element) && text) {
+        tasks.push({ index, text });
+      }
+    });
+  return tasks;
+}
+
+/** Open checklist items of every note, most recently edited notes first. */
+export async function loadOpenTasks(): Promise<NoteTasks[]> {
+  const metadataMap = await loadNoteMetadataMap();
+  const notes: NoteTasks[] = [];
+  for (const metadata of Object.values(metadataMap)) {
+    const markup = await readStoredValue(getNoteStorageKey(metadata.slug));
+    const tasks = extractOpenTasks(markup);
+    if (tasks.length) {
+      notes.push({
+        slug: metadata.slug,
+        title: metadata.title || metadata.slug,
+        updatedAt: metadata.updatedAt,
+        tasks,
+      });
+    }
+  }
+  return notes.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Ticks off a checklist item in a stored note. The item is matched by
+ * position and text, so an edit made since the list was loaded is never
+ * overwritten. Resolves with the updated markup, or null when the item
+ * could not be found.
+ */
+export async function completeStoredTask(
+  slug: string,
+  task: OpenTask
+): Promise<string | null> {
+  const storageKey = getNoteStorageKey(slug);
+  const markup = await readStoredValue(storageKey);
+  const container = parseMarkup(markup);
+  const element = container.querySelectorAll(TASK_SELECTOR)[task.index];
+  if (!element || isTaskDone(element) || getTaskText(element) !== task.text) {
+    return null;
+  }
+  setTaskState(element, "done");
+  const updated = container.innerHTML;
+
+  const metadata = (await loadNoteMetadataMap())[slug];
+  await writeStoredValue(storageKey, updated);
+  void saveNoteMetadata({
+    slug,
+    title: metadata?.title ?? slug,
+    updatedAt: Date.now(),
+  });
+  // An unlocked private note must not leave a readable copy behind.
+  if (!isNoteEncrypted(storageKey)) {
+    void recordNoteSnapshot(slug, updated, {
+      content: markup,
+      savedAt: metadata?.updatedAt || Date.now(),
+    });
+    void indexNoteContent(slug, updated);
+  }
+  return updated;
+}
@@ -0,0 +1,159 @@
+export type DiffOperationType = "equal" | "insert" | "delete";
+
+export type DiffOperation<T> = {
+  type: DiffOperationType;
+  value: T;
+};
+
+type Equality<T> = (left: T, right: T) => boolean;
+
+function backtrack<T>(
+  trace: Int32Array[],
+  a: readonly T[],
+  b: readonly T[]
+): DiffOperation<T>[] {
+  const operations: DiffOperation<T>[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d -= 1) {
+    const v = trace[d];
+    const k = x - y;
+    const previousK =
+      k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : v[previousK + d];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      x -= 1;
+      y -= 1;
+      operations.push({ type: "equal", value: a[x] });
+    }
+
+    if (d > 0) {
+      if (x === previousX) {
+        operations.push({ type: "insert", value: b[previousY] });
+      } else {
+        operations.push({ type: "delete", value: a[previousX] });
+      }
+    }
+
+    x = previousX;
+    y = previousY;
+  }
+
+  return operations.reverse();
+}
+
+function myersDiff<T>(
+  a: readonly T[],
+  b: readonly T[],
+  equals: Equality<T>,
+  maxCost: number
+): DiffOperation<T>[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxCost);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d += 1) {
+    // Only the diagonals reachable in d steps are needed when backtracking.
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[x], b[y])) {
+        x += 1;
+        y += 1;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Computes the shortest edit script turning `a` into `b` (Myers' algorithm),
+ * or `null` when it needs more than `maxCost` insertions and deletions.
+ * Shared prefixes and suffixes are trimmed first so small edits in long
+ * sequences stay cheap.
+ */
+export function diffSequencesWithin<T>(
+  a: readonly T[],
+  b: readonly T[],
+  maxCost: number,
+  equals: Equality<T> = Object.is
+): DiffOperation<T>[] | null {
+  let start = 0;
+  while (start < a.length && start < b.length && equals(a[start], b[start])) {
+    start += 1;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && equals(a[endA - 1], b[endB - 1])) {
+    endA -= 1;
+    endB -= 1;
+  }
+
+  const middle = myersDiff(
+    a.slice(start, endA),
+    b.slice(start, endB),
+    equals,
+    maxCost
+  );
+  if (!middle) {
+    return null;
+  }
+
+  const prefix = a
+    .slice(0, start)
+    .map((value): DiffOperation<T> => ({ type: "equal", value }));
+  const suffix = a
+    .slice(endA)
+    .map((value): DiffOperation<T> => ({ type: "equal", value }));
+
+  return [...prefix, ...middle, ...suffix];
+}
+
+export function diffSequences<T>(
+  a: readonly T[],
+  b: readonly T[],
+  equals: Equality<T> = Object.is
+): DiffOperation<T>[] {
+  return diffSequencesWithin(a, b, Infinity, equals) ?? [];
+}
+
+/**
+ * Splits note markup into its visible lines, one per top-level block.
+ */
+export function markupToLines(markup: string): string[] {
+  if (!markup) {
+    return [];
+  }
+  const scratch = document.createElement("div");
+  scratch.innerHTML = markup;
+
+  const lines: string[] = [];
+  scratch.childNodes.forEach((node) => {
+    if (node instanceof HTMLUListElement || node instanceof HTMLOListElement) {
+      node.querySelectorAll("li").forEach((item) => {
+        lines.push(item.textContent ?? "");
+      });
+      return;
+    }
+    const text = (node.textContent ?? "").replace(/\u200b/gi, "");
+    lines.push(...text.split(/\r?\n/));
+  });
+  return lines;
+}
@@ -0,0 +1,289 @@
+import {
+  diffSequences,
+  diffSequencesWithin,
+  type DiffOperation,
+} from "./textDiff.ts";
+
+type Hunk<T> = {
+  start: number;
+  end: number;
+  tokens: T[];
+};
+
+// Beyond this many edits per side the versions are treated as unrelated.
+const MAX_MERGE_COST = 4000;
+
+const MARKUP_TOKEN_PATTERN = /<[^>]*>|&[#\w]+;|[\s\S]/gu;
+const BLOCK_OPEN_PATTERN =
+  /^<(?:div|p|li|ul|ol|pre|blockquote|h[1-6])\b[^>]*>$/iu;
+const BLOCK_CLOSE_PATTERN = /^<\/(?:div|p|li|ul|ol|pre|blockquote|h[1-6])>$/iu;
+
+type ConflictResolver<T> = (base: T[], local: T[], remote: T[]) => T[] | null;
+
+/**
+ * Splits markup into tags, entities and single characters so merges never
+ * cut through the middle of a tag.
+ */
+export function tokenizeMarkup(markup: string): string[] {
+  return markup.match(MARKUP_TOKEN_PATTERN) ?? [];
+}
+
+const toHunks = <T>(operations: DiffOperation<T>[]): Hunk<T>[] => {
+  const hunks: Hunk<T>[] = [];
+  let current: Hunk<T> | null = null;
+  let baseIndex = 0;
+
+  for (const operation of operations) {
+    if (operation.type === "equal") {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      baseIndex += 1;
+      continue;
+    }
+    if (!current) {
+      current = { start: baseIndex, end: baseIndex, tokens: [] };
+    }
+    if (operation.type === "delete") {
+      current.end += 1;
+      baseIndex += 1;
+    } else {
+      current.tokens.push(operation.value);
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+  return hunks;
+};
+
+const applyHunks = <T>(
+  base: readonly T[],
+  hunks: Hunk<T>[],
+  start: number,
+  end: number
+): T[] => {
+  const output: T[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    output.push(...base.slice(position, hunk.start), ...hunk.tokens);
+    position = hunk.end;
+  }
+  output.push(...base.slice(position, end));
+  return output;
+};
+
+/**
+ * Keeps every token from both sides: shared tokens once, then each side's
+ * own additions in document order.
+ */
+const unionSegments = <T>(local: T[], remote: T[]): T[] => {
+  return diffSequences(local, remote).map((operation) => operation.value);
+};
+
+/**
+ * Splits markup into lines: every block element starts a new piece, and
+ * text before the first block is a piece of its own.
+ */
+const splitMarkupBlocks = (markup: string): string[] => {
+  const blocks: string[] = [];
+  let current = "";
+  for (const token of tokenizeMarkup(markup)) {
+    if (current && BLOCK_OPEN_PATTERN.test(token)) {
+      blocks.push(current);
+      current = "";
+    }
+    current += token;
+    if (BLOCK_CLOSE_PATTERN.test(token)) {
+      blocks.push(current);
+      current = "";
+    }
+  }
+  if (current) {
+    blocks.push(current);
+  }
+  return blocks;
+};
+
+/**
+ * Lines both sides added at the same spot are kept one after the other.
+ * Lines both sides edited are merged token by token.
+ */
+const resolveBlockConflict: ConflictResolver<string> = (
+  base,
+  local,
+  remote
+) => {
+  if (!base.length) {
+    return unionSegments(local, remote);
+  }
+  const merged = mergeSequences(
+    tokenizeMarkup(base.join("")),
+    tokenizeMarkup(local.join("")),
+    tokenizeMarkup(remote.join(""))
+  );
+  return merged ? [merged.join("")] : null;
+};
+
+/**
+ * Three-way merge of token sequences. Changes made on only one side are
+ * applied as-is; overlapping changes are handed to `resolveConflict`, which
+ * by default keeps the tokens from both sides so no keystroke is lost.
+ * Returns `null` when the versions diverged too far.
+ */
+export function mergeSequences<T>(
+  base: readonly T[],
+  local: readonly T[],
+  remote: readonly T[],
+  resolveConflict: ConflictResolver<T> = (_base, localSegment, remoteSegment) =>
+    unionSegments(localSegment, remoteSegment)
+): T[] | null {
+  const localOperations = diffSequencesWithin(base, local, MAX_MERGE_COST);
+  const remoteOperations = diffSequencesWithin(base, remote, MAX_MERGE_COST);
+  if (!localOperations || !remoteOperations) {
+    return null;
+  }
+
+  const localHunks = toHunks(localOperations);
+  const remoteHunks = toHunks(remoteOperations);
+  const merged: T[] = [];
+  let basePosition = 0;
+  let localIndex = 0;
+  let remoteIndex = 0;
+
+  while (localIndex < localHunks.length || remoteIndex < remoteHunks.length) {
+    const nextLocal = localHunks[localIndex];
+    const nextRemote = remoteHunks[remoteIndex];
+    const clusterStart = Math.min(
+      nextLocal?.start ?? Infinity,
+      nextRemote?.start ?? Infinity
+    );
+    let clusterEnd = clusterStart;
+    const clusterLocal: Hunk<T>[] = [];
+    const clusterRemote: Hunk<T>[] = [];
+
+    const overlapsCluster = (hunk: Hunk<T> | undefined) => {
+      if (!hunk) return false;
+      if (hunk.start === clusterStart) return true;
+      return hunk.start < clusterEnd && clusterStart < hunk.end;
+    };
+
+    let grew = true;
+    while (grew) {
+      grew = false;
+      if (overlapsCluster(localHunks[localIndex])) {
+        const hunk = localHunks[localIndex];
+        clusterLocal.push(hunk);
+        clusterEnd = Math.max(clusterEnd, hunk.end);
+        localIndex += 1;
+        grew = true;
+      }
+      if (overlapsCluster(remoteHunks[remoteIndex])) {
+        const hunk = remoteHunks[remoteIndex];
+        clusterRemote.push(hunk);
+        clusterEnd = Math.max(clusterEnd, hunk.end);
+        remoteIndex += 1;
+        grew = true;
+      }
+    }
+
+    merged.push(...base.slice(basePosition, clusterStart));
+
+    if (!clusterRemote.length) {
+      merged.push(...applyHunks(base, clusterLocal, clusterStart, clusterEnd));
+    } else if (!clusterLocal.length) {
+      merged.push(...applyHunks(base, clusterRemote, clusterStart, clusterEnd));
+    } else {
+      const localSegment = applyHunks(
+        base,
+        clusterLocal,
+        clusterStart,
+        clusterEnd
+      );
+      const remoteSegment = applyHunks(
+        base,
+        clusterRemote,
+        clusterStart,
+        clusterEnd
+      );
+      const resolved = resolveConflict(
+        base.slice(clusterStart, clusterEnd),
+        localSegment,
+        remoteSegment
+      );
+      if (!resolved) {
+        return null;
+      }
+      merged.push(...resolved);
+    }
+
+    basePosition = clusterEnd;
+  }
+
+  merged.push(...base.slice(basePosition));
+  return merged;
+}
+
+export function mergeMarkup(
+  base: string,
+  local: string,
+  remote: string
+): string | null {
+  if (local === base || local === remote) {
+    return remote;
+  }
+  if (remote === base) {
+    return local;
+  }
+  // Lines are merged first, so lines added on both sides stay apart instead
+  // of sharing one pair of tags.
+  const merged = mergeSequences(
+    splitMarkupBlocks(base),
+    splitMarkupBlocks(local),
+    splitMarkupBlocks(remote),
+    resolveBlockConflict
+  );
+  return merged ? merged.join("") : null;
+}
+
+/**
+ * Maps a character offset in `before` to the matching offset in `after`.
+ * Text inserted exactly at the offset ends up after it, so a caret keeps
+ * its place when the other side types at the same position.
+ */
+export function mapTextOffset(
+  before: string,
+  after: string,
+  offset: number
+): number {
+  if (before === after) {
+    return offset;
+  }
+  const operations = diffSequencesWithin(
+    before.split(""),
+    after.split(""),
+    MAX_MERGE_COST
+  );
+  if (!operations) {
+    return Math.min(offset, after.length);
+  }
+
+  let beforeIndex = 0;
+  let afterIndex = 0;
+  for (const operation of operations) {
+    if (beforeIndex >= offset) {
+      break;
+    }
+    if (operation.type === "equal") {
+      beforeIndex += 1;
+      afterIndex += 1;
+    } else if (operation.type === "delete") {
+      beforeIndex += 1;
+    } else {
+      afterIndex += 1;
+    }
+  }
+  return afterIndex;
+}
@@ -0,0 +1,169 @@
+import { createCaretMenu, type CaretMenuItem } from "./caretMenu.ts";
+import {
+  loadNoteMetadataMap,
+  type NoteMetadata,
+} from "./utils/noteMetadata.ts";
+import { getActiveSlug, getNoteUrl } from "./utils/noteUrl.ts";
+
+const WIKI_LINK_TRIGGER = /\[\[([^[\]\n]{0,60})$/;
+const MAX_SUGGESTIONS = 8;
+
+type WikiLinkTrigger = {
+  range: Range;
+  query: string;
+};
+
+const findTrigger = (noteElement: HTMLDivElement): WikiLinkTrigger | null => {
+  const ownerDocument = noteElement.ownerDocument ?? document;
+  const selection = ownerDocument.getSelection();
+  if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) {
+    return null;
+  }
+  const { anchorNode, anchorOffset } = selection;
+  // Checked by node type since the editor may live in the PiP window's realm.
+  if (
+    anchorNode?.nodeType !== Node.TEXT_NODE ||
+    !noteElement.contains(anchorNode) ||
+    anchorNode.parentElement?.closest("a")
+  ) {
+    return null;
+  }
+  const text = (anchorNode as Text).data.slice(0, anchorOffset);
+  const match = text.match(WIKI_LINK_TRIGGER);
+  if (!match) {
+    return null;
+  }
+  const range = ownerDocument.createRange();
+  range.setStart(anchorNode, anchorOffset - match[0].length);
+  range.setEnd(anchorNode, anchorOffset);
+  return { range, query: match[1].trim().toLowerCase() };
+};
+
+const rankSuggestions = (
+  notes: NoteMetadata[],
+  query: string
+): NoteMetadata[] => {
+  const activeSlug = getActiveSlug();
+  return notes
+    .filter((note) => note.slug !== activeSlug)
+    .map((note) => {
+      const title = note.title.toLowerCase();
+      const slug = note.slug.toLowerCase();
+      let rank = -1;
+      if (!query) rank = 2;
+      else if (title.startsWith(query) || slug.startsWith(query)) rank = 0;
+      else if (title.includes(query) || slug.includes(query)) rank = 1;
+      return { note, rank };
+    })
+    .filter(({ rank }) => rank !== -1)
+    .sort((a, b) => a.rank - b.rank || b.note.updatedAt - a.note.updatedAt)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ note }) => note);
+};
+
+/**
+ * Typing `[[` opens a note picker; choosing a note replaces the brackets
+ * with a link to it, in the same shape as pasted note URLs.
+ */
+export function setupWikiLinks(noteElement: HTMLDivElement): void {
+  let notes: NoteMetadata[] | null = null;
+  let loadingNotes: Promise<NoteMetadata[]> | null = null;
+  let trigger: WikiLinkTrigger | null = null;
+
+  const loadNotes = () => {
+    if (notes) {
+      return Promise.resolve(notes);
+    }
+    loadingNotes ??= loadNoteMetadataMap().then((metadataMap) => {
+      notes = Object.values(metadataMap);
+      loadingNotes = null;
+      return notes;
+    });
+    return loadingNotes;
+  };
+
+  const insertLink = (item: CaretMenuItem) => {
+    const note = notes?.find((candidate) => candidate.slug === item.id);
+    if (!trigger || !note) {
+      return;
+    }
+    const ownerDocument = noteElement.ownerDocument ?? document;
+    const link = ownerDocument.createElement("a");
+    link.href = getNoteUrl(note.slug);
+    link.target = "_self";
+    link.textContent = note.title || `Note @${note.slug}`;
+    link.setAttribute("contenteditable", "false");
+    const spacer = ownerDocument.createTextNode(" ");
+
+    const { range } = trigger;
+    trigger = null;
+    range.deleteContents();
+    range.insertNode(spacer);
+    range.insertNode(link);
+
+    const caretRange = ownerDocument.createRange();
+    caretRange.setStartAfter(spacer);
+    caretRange.collapse(true);
+    const selection = ownerDocument.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(caretRange);
+
+    noteElement.dispatchEvent(new InputEvent("input", { bubbles: true }));
+  };
+
+  const menu = createCaretMenu(noteElement, {
+    ariaLabel: "Link to note",
+    onSelect: insertLink,
+  });
+
+  const updateSuggestions = async () => {
+    const nextTrigger = findTrigger(noteElement);
+    if (!nextTrigger) {
+      trigger = null;
+      notes = null;
+      menu.hide();
+      return;
+    }
+    trigger = nextTrigger;
+    const available = await loadNotes();
+    if (trigger !== nextTrigger) {
+      return;
+    }
+    const suggestions = rankSuggestions(available, nextTrigger.query);
+    menu.show(
+      suggestions.map((note) => ({
+        id: note.slug,
+        label: note.title || note.slug,
+        hint: note.slug === "root" ? "default" : `/${note.slug}`,
+      })),
+      nextTrigger.range
+    );
+  };
+
+  noteElement.addEventListener("input", (event) => {
+    if ((event as InputEvent).isComposing) {
+      return;
+    }
+    void updateSuggestions();
+  });
+
+  noteElement.addEventListener("keydown", (event) => {
+    if (menu.handleKeydown(event)) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  });
+
+  // Moving the caret away from the brackets closes the picker.
+  const refreshWhenOpen = () => {
+    if (menu.isOpen()) {
+      void updateSuggestions();
+    }
+  };
+  noteElement.addEventListener("keyup", (event) => {
+    if (event.key === "ArrowLeft" || event.key === "ArrowRight") {
+      refreshWhenOpen();
+    }
+  });
+  noteElement.addEventListener("click", refreshWhenOpen);
+}